@@ -0,0 +1,145 @@
+const { afterEach, describe, expect, it } = require('@jest/globals');
+const React = require('react');
+const { act, create } = require('react-test-renderer');
+const {
+  default: BottomSheet,
+  BottomSheetModal,
+  BottomSheetModalProvider,
+  getSheetState,
+  resetBottomSheetTesting,
+  simulatePan,
+} = require('../testing');
+
+const render = element => {
+  let renderer;
+  act(() => {
+    renderer = create(element);
+  });
+  return renderer;
+};
+
+afterEach(() => {
+  resetBottomSheetTesting();
+});
+
+describe('BottomSheet', () => {
+  it('keeps the provided snap points order', () => {
+    const ref = React.createRef();
+    render(
+      React.createElement(BottomSheet, {
+        ref,
+        testID: 'sheet',
+        snapPoints: ['50%', 200, '90%'],
+      })
+    );
+
+    expect(getSheetState('sheet')).toEqual({ index: 0, position: 500 });
+
+    act(() => {
+      ref.current.snapToIndex(1);
+    });
+    expect(getSheetState('sheet')).toEqual({ index: 1, position: 800 });
+
+    act(() => {
+      ref.current.expand();
+    });
+    expect(getSheetState('sheet')).toEqual({ index: 2, position: 100 });
+  });
+});
+
+describe('BottomSheetModal', () => {
+  it('presents and dismisses the modal', () => {
+    const ref = React.createRef();
+    render(
+      React.createElement(
+        BottomSheetModalProvider,
+        null,
+        React.createElement(BottomSheetModal, {
+          ref,
+          name: 'modal',
+          snapPoints: [200, 500],
+        })
+      )
+    );
+
+    expect(getSheetState('modal')).toMatchObject({
+      index: -1,
+      presented: false,
+    });
+
+    act(() => {
+      ref.current.present({ id: 1 });
+    });
+    expect(getSheetState('modal')).toEqual({
+      index: 0,
+      position: 800,
+      presented: true,
+      minimized: false,
+      data: { id: 1 },
+    });
+
+    act(() => {
+      ref.current.dismiss();
+    });
+    expect(getSheetState('modal')).toMatchObject({
+      index: -1,
+      presented: false,
+    });
+  });
+});
+
+describe('simulatePan', () => {
+  const renderSheet = props =>
+    render(
+      React.createElement(BottomSheet, {
+        testID: 'sheet',
+        snapPoints: [200, 500],
+        index: 1,
+        ...props,
+      })
+    );
+
+  it('snaps to the nearest snap point', () => {
+    renderSheet();
+
+    act(() => {
+      simulatePan('sheet', 250);
+    });
+    expect(getSheetState('sheet')).toEqual({ index: 0, position: 800 });
+  });
+
+  it('projects the release velocity', () => {
+    renderSheet();
+
+    act(() => {
+      simulatePan('sheet', 50, 2000);
+    });
+    expect(getSheetState('sheet')).toEqual({ index: 0, position: 800 });
+  });
+
+  it('closes the sheet only with pan down to close', () => {
+    renderSheet({ index: 0 });
+
+    act(() => {
+      simulatePan('sheet', 250);
+    });
+    expect(getSheetState('sheet').index).toBe(0);
+
+    resetBottomSheetTesting();
+    renderSheet({ index: 0, enablePanDownToClose: true });
+
+    act(() => {
+      simulatePan('sheet', 250);
+    });
+    expect(getSheetState('sheet')).toEqual({ index: -1, position: 1000 });
+  });
+
+  it('skips the pan when dragging is disabled', () => {
+    renderSheet({ snapPoints: [200, { value: 500, disableDrag: true }] });
+
+    act(() => {
+      simulatePan('sheet', 250);
+    });
+    expect(getSheetState('sheet')).toEqual({ index: 1, position: 500 });
+  });
+});
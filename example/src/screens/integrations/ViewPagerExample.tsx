@@ -12,8 +12,7 @@ const FirstRoute = () => {
       <BottomSheet
         snapPoints={snapPoints}
         enableDynamicSizing={false}
-        activeOffsetY={[-1, 1]}
-        failOffsetX={[-5, 5]}
+        enableAxisLocking={true}
         animateOnMount={true}
       >
         <ContactList type="FlatList" count={15} />
@@ -12,6 +12,8 @@ const React = require('react');
 const ReactNative = require('react-native');
 
 const NOOP = () => {};
+const NOOP_ANIMATION = () =>
+  Promise.resolve({ finished: true, index: 0, position: 0 });
 const NOOP_VALUE = { value: 0, set: NOOP, get: () => 0 };
 
 const BottomSheetModalProvider = ({ children }) => {
@@ -25,14 +27,34 @@ const BottomSheetComponent = props => {
 };
 
 class BottomSheetModal extends React.Component {
-  snapToIndex() {}
+  snapToIndex() {
+    return NOOP_ANIMATION();
+  }
+  snapToId() {
+    return NOOP_ANIMATION();
+  }
   snapToPosition() {}
-  expand() {}
-  collapse() {}
-  close() {}
-  forceClose() {}
-  present() {}
-  dismiss() {}
+  expand() {
+    return NOOP_ANIMATION();
+  }
+  collapse() {
+    return NOOP_ANIMATION();
+  }
+  close() {
+    return NOOP_ANIMATION();
+  }
+  forceClose() {
+    return NOOP_ANIMATION();
+  }
+  subscribeToAnimatedValues() {
+    return NOOP;
+  }
+  present() {
+    return NOOP_ANIMATION();
+  }
+  dismiss() {
+    return NOOP_ANIMATION();
+  }
 
   render() {
     return this.props.children;
@@ -40,12 +62,28 @@ class BottomSheetModal extends React.Component {
 }
 
 class BottomSheet extends React.Component {
-  snapToIndex() {}
+  snapToIndex() {
+    return NOOP_ANIMATION();
+  }
+  snapToId() {
+    return NOOP_ANIMATION();
+  }
   snapToPosition() {}
-  expand() {}
-  collapse() {}
-  close() {}
-  forceClose() {}
+  expand() {
+    return NOOP_ANIMATION();
+  }
+  collapse() {
+    return NOOP_ANIMATION();
+  }
+  close() {
+    return NOOP_ANIMATION();
+  }
+  forceClose() {
+    return NOOP_ANIMATION();
+  }
+  subscribeToAnimatedValues() {
+    return NOOP;
+  }
 
   render() {
     return this.props.children;
@@ -53,29 +91,50 @@ class BottomSheet extends React.Component {
 }
 
 const useBottomSheet = () => ({
-  snapToIndex: NOOP,
+  snapToIndex: NOOP_ANIMATION,
+  snapToId: NOOP_ANIMATION,
   snapToPosition: NOOP,
-  expand: NOOP,
-  collapse: NOOP,
-  close: NOOP,
-  forceClose: NOOP,
+  expand: NOOP_ANIMATION,
+  collapse: NOOP_ANIMATION,
+  close: NOOP_ANIMATION,
+  forceClose: NOOP_ANIMATION,
+  subscribeToAnimatedValues: () => NOOP,
 
   animatedIndex: NOOP_VALUE,
   animatedPosition: NOOP_VALUE,
+  animatedVelocity: NOOP_VALUE,
+  animatedDragDirection: NOOP_VALUE,
 });
 
 const useBottomSheetModal = () => ({
+  present: () => false,
   dismiss: NOOP,
   dismissAll: NOOP,
 });
 
+const useBottomSheetModalStack = () => [];
+
+const useBottomSheetEvents = NOOP;
+
 const useBottomSheetAnimationConfigs = configs => configs;
 
+const useKeyboardProvider = () => ({
+  state: NOOP_VALUE,
+  height: NOOP_VALUE,
+  isFrameAccurate: false,
+});
+
 const bottomSheetInternal = {
   stopAnimation: NOOP,
   animateToPosition: NOOP,
+  emitEvent: NOOP,
+  subscribeToEvents: () => NOOP,
   setScrollableRef: NOOP,
   removeScrollableRef: NOOP,
+  registerScrollable: NOOP,
+  unregisterScrollable: NOOP,
+  setFocusedInputRef: NOOP,
+  removeFocusedInputRef: NOOP,
 };
 
 const bottomSheetModalInternal = {
@@ -103,6 +162,23 @@ const useBottomSheetDynamicSnapPoints = () => ({
   handleContentLayout: NOOP,
 });
 
+const useBottomSheetAnimatedValues = () => ({
+  animatedIndex: NOOP_VALUE,
+  animatedPosition: NOOP_VALUE,
+  animatedVelocity: NOOP_VALUE,
+  animatedDragDirection: NOOP_VALUE,
+  animatedSnapPoints: { value: [] },
+  animatedClosedPosition: NOOP_VALUE,
+  animatedHighestSnapPoint: NOOP_VALUE,
+});
+
+const useBottomSheetAnimatedValue = () => NOOP_VALUE;
+
+const interpolateSheet = (_, outputs) => {
+  const keys = Object.keys(outputs);
+  return keys.length > 0 ? outputs[keys[0]] : 0;
+};
+
 module.exports = {
   BottomSheetView: BottomSheetComponent,
   BottomSheetTextInput: ReactNative.TextInput,
@@ -111,6 +187,8 @@ module.exports = {
   BottomSheetFlatList: ReactNative.FlatList,
   BottomSheetFlashList: ReactNative.FlatList,
   BottomSheetVirtualizedList: ReactNative.VirtualizedList,
+  BottomSheetHorizontalScrollView: ReactNative.ScrollView,
+  BottomSheetOverlay: BottomSheetComponent,
 
   TouchableOpacity: ReactNative.TouchableOpacity,
   TouchableHighlight: ReactNative.TouchableHighlight,
@@ -124,9 +202,21 @@ module.exports = {
 
   useBottomSheet,
   useBottomSheetModal,
+  useBottomSheetModalStack,
+  useBottomSheetEvents,
   useBottomSheetSpringConfigs: useBottomSheetAnimationConfigs,
   useBottomSheetTimingConfigs: useBottomSheetAnimationConfigs,
   useBottomSheetInternal,
   useBottomSheetModalInternal,
   useBottomSheetDynamicSnapPoints,
+  useBottomSheetAnimatedValues,
+  useBottomSheetAnimatedProgress: useBottomSheetAnimatedValue,
+  useBottomSheetClosedDistance: useBottomSheetAnimatedValue,
+  useBottomSheetOvershoot: useBottomSheetAnimatedValue,
+  useBottomSheetDragVelocity: useBottomSheetAnimatedValue,
+  useKeyboardEventsProvider: useKeyboardProvider,
+  useAnimatedKeyboardProvider: useKeyboardProvider,
+  useVisualViewportKeyboardProvider: useKeyboardProvider,
+
+  interpolateSheet,
 };
@@ -1,13 +1,21 @@
 import invariant from 'invariant';
 import React, {
+  type RefObject,
   useMemo,
   useCallback,
   forwardRef,
   useImperativeHandle,
   memo,
   useEffect,
+  useRef,
 } from 'react';
-import { type Insets, Platform } from 'react-native';
+import {
+  AccessibilityInfo,
+  type Insets,
+  Platform,
+  type TextInput,
+  type ViewStyle,
+} from 'react-native';
 import { State } from 'react-native-gesture-handler';
 import Animated, {
   useAnimatedReaction,
@@ -29,11 +37,13 @@ import Animated, {
 import {
   ANIMATION_SOURCE,
   ANIMATION_STATE,
+  DRAG_DIRECTION,
   KEYBOARD_BEHAVIOR,
   KEYBOARD_BLUR_BEHAVIOR,
   KEYBOARD_INPUT_MODE,
   KEYBOARD_STATE,
   SCROLLABLE_STATE,
+  SHEET_EDGE,
   SHEET_STATE,
   SNAP_POINT_TYPE,
 } from '../../constants';
@@ -49,13 +59,29 @@ import {
   useScrollable,
   useStableCallback,
 } from '../../hooks';
-import type { BottomSheetMethods } from '../../types';
+import type {
+  BottomSheetAnimatedValues,
+  BottomSheetAnimatedValuesListener,
+  BottomSheetAnimationResult,
+  BottomSheetEvent,
+  BottomSheetEventListener,
+  BottomSheetMethods,
+  BottomSheetPersistedState,
+} from '../../types';
 import {
   animate,
+  computeClosedPosition,
+  computeKeyboardHeightInContainer,
+  computeSheetState,
+  computeTargetPosition,
   getKeyboardAnimationConfigs,
   normalizeSnapPoint,
   print,
 } from '../../utilities';
+import {
+  readPersistedState,
+  writePersistedState,
+} from '../../utilities/persistence';
 import BottomSheetBackdropContainer from '../bottomSheetBackdropContainer';
 import BottomSheetBackgroundContainer from '../bottomSheetBackgroundContainer';
 import BottomSheetContainer from '../bottomSheetContainer';
@@ -64,13 +90,21 @@ import BottomSheetDraggableView from '../bottomSheetDraggableView';
 import BottomSheetFooterContainer from '../bottomSheetFooterContainer/BottomSheetFooterContainer';
 import BottomSheetGestureHandlersProvider from '../bottomSheetGestureHandlersProvider';
 import BottomSheetHandleContainer from '../bottomSheetHandleContainer';
+import BottomSheetHeaderContainer from '../bottomSheetHeaderContainer';
 import {
+  DEFAULT_ACCESSIBILITY_ANNOUNCEMENT,
   DEFAULT_ACCESSIBILITY_LABEL,
   DEFAULT_ACCESSIBILITY_ROLE,
   DEFAULT_ACCESSIBLE,
   DEFAULT_ANIMATE_ON_MOUNT,
+  DEFAULT_AXIS_LOCKING_SLOP,
   DEFAULT_DYNAMIC_SIZING,
+  DEFAULT_ENABLE_AXIS_LOCKING,
+  DEFAULT_EDGE,
+  DEFAULT_SNAP_STRATEGY,
   DEFAULT_ENABLE_BLUR_KEYBOARD_ON_GESTURE,
+  DEFAULT_KEYBOARD_SCROLL_OFFSET,
+  DEFAULT_PERSISTENCE_STORAGE,
   DEFAULT_ENABLE_CONTENT_PANNING_GESTURE,
   DEFAULT_ENABLE_OVER_DRAG,
   DEFAULT_ENABLE_PAN_DOWN_TO_CLOSE,
@@ -80,10 +114,13 @@ import {
   DEFAULT_OVER_DRAG_RESISTANCE_FACTOR,
   INITIAL_CONTAINER_HEIGHT,
   INITIAL_CONTAINER_OFFSET,
+  INITIAL_CONTAINER_WIDTH,
   INITIAL_HANDLE_HEIGHT,
   INITIAL_POSITION,
   INITIAL_SNAP_POINT,
   INITIAL_VALUE,
+  KEYBOARD_SETTLE_DELAY,
+  PERSIST_SCROLL_OFFSET_DELAY,
 } from './constants';
 import { styles } from './styles';
 import type { AnimateToPositionType, BottomSheetProps } from './types';
@@ -107,11 +144,16 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
       animateOnMount = DEFAULT_ANIMATE_ON_MOUNT,
       enableContentPanningGesture = DEFAULT_ENABLE_CONTENT_PANNING_GESTURE,
       enableHandlePanningGesture,
+      enableAxisLocking = DEFAULT_ENABLE_AXIS_LOCKING,
+      axisLockingSlop = DEFAULT_AXIS_LOCKING_SLOP,
+      activeScrollableId: _providedActiveScrollableId,
       enableOverDrag = DEFAULT_ENABLE_OVER_DRAG,
       enablePanDownToClose = DEFAULT_ENABLE_PAN_DOWN_TO_CLOSE,
       enableDynamicSizing = DEFAULT_DYNAMIC_SIZING,
       overDragResistanceFactor = DEFAULT_OVER_DRAG_RESISTANCE_FACTOR,
       overrideReduceMotion: _providedOverrideReduceMotion,
+      edge = DEFAULT_EDGE,
+      snapStrategy = DEFAULT_SNAP_STRATEGY,
 
       // styles
       style: _providedStyle,
@@ -126,11 +168,19 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
       // keyboard
       keyboardBehavior = DEFAULT_KEYBOARD_BEHAVIOR,
       keyboardBlurBehavior = DEFAULT_KEYBOARD_BLUR_BEHAVIOR,
+      keyboardSnapIndex,
       android_keyboardInputMode = DEFAULT_KEYBOARD_INPUT_MODE,
+      keyboardProviderHook,
       enableBlurKeyboardOnGesture = DEFAULT_ENABLE_BLUR_KEYBOARD_ON_GESTURE,
+      keyboardScrollOffset = DEFAULT_KEYBOARD_SCROLL_OFFSET,
+
+      // persistence
+      persistenceKey,
+      persistenceStorage = DEFAULT_PERSISTENCE_STORAGE,
 
       // layout
       containerHeight: _providedContainerHeight,
+      containerWidth: _providedContainerWidth,
       containerOffset: _providedContainerOffset,
       topInset = 0,
       bottomInset = 0,
@@ -152,9 +202,12 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
       onChange: _providedOnChange,
       onClose: _providedOnClose,
       onAnimate: _providedOnAnimate,
+      onEvent: _providedOnEvent,
 
       // private
       $modal = false,
+      $persistedData,
+      $onAnimatedValuesChange: _providedOnAnimatedValuesChange,
       detached = false,
 
       // components
@@ -162,6 +215,9 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
       backdropComponent,
       backgroundComponent,
       footerComponent,
+      footerBehavior,
+      enableFooterHideOnScroll,
+      headerComponent,
       children,
 
       // accessibility
@@ -170,6 +226,8 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
         _providedAccessibilityLabel = DEFAULT_ACCESSIBILITY_LABEL,
       accessibilityRole:
         _providedAccessibilityRole = DEFAULT_ACCESSIBILITY_ROLE,
+      accessibilityAnnouncement:
+        _providedAccessibilityAnnouncement = DEFAULT_ACCESSIBILITY_ANNOUNCEMENT,
     } = props;
     //#endregion
 
@@ -182,60 +240,123 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
         enableDynamicSizing,
         topInset,
         bottomInset,
+        snapStrategy,
+        keyboardSnapIndex,
       });
     }
     //#endregion
 
     //#region layout variables
+    const isHorizontalEdge =
+      edge === SHEET_EDGE.left || edge === SHEET_EDGE.right;
     /**
-     * This variable is consider an internal variable,
+     * These variables are consider internal variables,
      * that will be used conditionally in `animatedContainerHeight`
      */
     const _animatedContainerHeight = useReactiveSharedValue(
       _providedContainerHeight ?? INITIAL_CONTAINER_HEIGHT
     );
+    const _animatedContainerWidth = useReactiveSharedValue(
+      _providedContainerWidth ?? INITIAL_CONTAINER_WIDTH
+    );
     /**
      * This is a conditional variable, where if the `BottomSheet` is used
      * in a modal, then it will subset vertical insets (top+bottom) from
      * provided container height.
+     *
+     * When the sheet is anchored to a horizontal edge, this variable holds
+     * the container width instead, since all snapping calculations happen
+     * on the sheet axis.
      */
     const animatedContainerHeight = useDerivedValue(() => {
+      if (isHorizontalEdge) {
+        return _animatedContainerWidth.value;
+      }
+
+      const verticalInset = topInset + bottomInset;
+      return $modal
+        ? _animatedContainerHeight.value - verticalInset
+        : _animatedContainerHeight.value;
+    }, [
+      topInset,
+      bottomInset,
+      $modal,
+      isHorizontalEdge,
+      _animatedContainerHeight,
+      _animatedContainerWidth,
+    ]);
+    /**
+     * The container size on the axis perpendicular to the sheet axis.
+     */
+    const animatedContainerCrossSize = useDerivedValue(() => {
+      if (!isHorizontalEdge) {
+        return _animatedContainerWidth.value;
+      }
+
       const verticalInset = topInset + bottomInset;
       return $modal
         ? _animatedContainerHeight.value - verticalInset
         : _animatedContainerHeight.value;
-    }, [topInset, bottomInset, $modal, _animatedContainerHeight]);
+    }, [
+      topInset,
+      bottomInset,
+      $modal,
+      isHorizontalEdge,
+      _animatedContainerHeight,
+      _animatedContainerWidth,
+    ]);
     const animatedContainerOffset = useReactiveSharedValue(
       _providedContainerOffset ?? INITIAL_CONTAINER_OFFSET
     ) as SharedValue<Required<Insets>>;
     const animatedHandleHeight = useReactiveSharedValue<number>(
       INITIAL_HANDLE_HEIGHT
     );
+    const animatedHeaderHeight = useSharedValue(0);
     const animatedFooterHeight = useSharedValue(0);
     const animatedContentHeight = useSharedValue(INITIAL_CONTAINER_HEIGHT);
-    const [animatedSnapPoints, animatedDynamicSnapPointIndex] =
-      useAnimatedSnapPoints(
-        _providedSnapPoints,
-        animatedContainerHeight,
-        animatedContentHeight,
-        animatedHandleHeight,
-        animatedFooterHeight,
-        enableDynamicSizing,
-        maxDynamicContentSize
-      );
+    // keyboard, used by the snap points worklets
+    const {
+      state: animatedKeyboardState,
+      height: animatedKeyboardHeight,
+      animationDuration: keyboardAnimationDuration,
+      animationEasing: keyboardAnimationEasing,
+      isFrameAccurate: isKeyboardFrameAccurate,
+      shouldHandleKeyboardEvents,
+      keyboardPolicy,
+    } = useKeyboard(keyboardProviderHook);
+    const [
+      animatedSnapPoints,
+      animatedDynamicSnapPointIndex,
+      ,
+      animatedSnapPointConfigs,
+    ] = useAnimatedSnapPoints(
+      _providedSnapPoints,
+      animatedContainerHeight,
+      animatedContentHeight,
+      animatedHandleHeight,
+      animatedHeaderHeight,
+      animatedFooterHeight,
+      animatedKeyboardHeight,
+      topInset,
+      bottomInset,
+      enableDynamicSizing,
+      maxDynamicContentSize
+    );
     const animatedHighestSnapPoint = useDerivedValue(
       () => animatedSnapPoints.value[animatedSnapPoints.value.length - 1],
       [animatedSnapPoints]
     );
-    const animatedClosedPosition = useDerivedValue(() => {
-      let closedPosition = animatedContainerHeight.value;
-
-      if ($modal || detached) {
-        closedPosition = animatedContainerHeight.value + bottomInset;
-      }
-
-      return closedPosition;
-    }, [animatedContainerHeight, $modal, detached, bottomInset]);
+    const animatedClosedPosition = useDerivedValue(
+      () =>
+        computeClosedPosition({
+          containerHeight: animatedContainerHeight.value,
+          topInset,
+          bottomInset,
+          edge,
+          detached: $modal || detached,
+        }),
+      [animatedContainerHeight, $modal, detached, edge, bottomInset, topInset]
+    );
     const animatedSheetHeight = useDerivedValue(
       () => animatedContainerHeight.value - animatedHighestSnapPoint.value,
       [animatedContainerHeight, animatedHighestSnapPoint]
@@ -251,6 +372,12 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
     const isAnimatedOnMount = useSharedValue(
       !animateOnMount || _providedIndex === -1
     );
+    /**
+     * the index to mount the sheet at, it is the provided `index`
+     * unless a persisted state was restored.
+     */
+    const animatedProvidedIndex = useReactiveSharedValue(_providedIndex);
+    const isPersistedStateRestored = useSharedValue(!persistenceKey);
     const isContentHeightFixed = useSharedValue(false);
     const isLayoutCalculated = useDerivedValue(() => {
       let isContainerHeightCalculated = false;
@@ -306,26 +433,30 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
     const animatedHandleGestureState = useSharedValue<State>(
       State.UNDETERMINED
     );
+    /**
+     * maintained by the gesture & scroll events handlers.
+     */
+    const animatedVelocity = useSharedValue(0);
+    const animatedDragDirection = useSharedValue<DRAG_DIRECTION>(
+      DRAG_DIRECTION.NONE
+    );
     //#endregion
 
     //#region hooks variables
     // scrollable variables
     const {
+      scrollableRef,
       animatedScrollableType,
       animatedScrollableContentOffsetY,
       animatedScrollableOverrideState,
       isScrollableRefreshable,
+      animatedActiveScrollableId,
       setScrollableRef,
       removeScrollableRef,
-    } = useScrollable();
-    // keyboard
-    const {
-      state: animatedKeyboardState,
-      height: animatedKeyboardHeight,
-      animationDuration: keyboardAnimationDuration,
-      animationEasing: keyboardAnimationEasing,
-      shouldHandleKeyboardEvents,
-    } = useKeyboard();
+      registerScrollable,
+      unregisterScrollable,
+      setActiveScrollableId,
+    } = useScrollable(_providedActiveScrollableId);
     const animatedKeyboardHeightInContainer = useSharedValue(0);
     const userReduceMotionSetting = useReducedMotion();
     const reduceMotion = useMemo(() => {
@@ -342,57 +473,66 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
     const animatedAnimationSource = useSharedValue<ANIMATION_SOURCE>(
       ANIMATION_SOURCE.MOUNT
     );
-    const animatedSheetState = useDerivedValue(() => {
-      // closed position = position >= container height
-      if (animatedPosition.value >= animatedClosedPosition.value) {
-        return SHEET_STATE.CLOSED;
-      }
-
-      // extended position = container height - sheet height
-      const extendedPosition =
-        animatedContainerHeight.value - animatedSheetHeight.value;
-      if (animatedPosition.value === extendedPosition) {
-        return SHEET_STATE.EXTENDED;
-      }
-
-      // extended position with keyboard =
-      // container height - (sheet height + keyboard height in root container)
-      const keyboardHeightInContainer = animatedKeyboardHeightInContainer.value;
-      const extendedPositionWithKeyboard = Math.max(
-        0,
-        animatedContainerHeight.value -
-          (animatedSheetHeight.value + keyboardHeightInContainer)
-      );
-
-      // detect if keyboard is open and the sheet is in temporary position
-      if (
-        keyboardBehavior === KEYBOARD_BEHAVIOR.interactive &&
-        isInTemporaryPosition.value &&
-        animatedPosition.value === extendedPositionWithKeyboard
-      ) {
-        return SHEET_STATE.EXTENDED;
-      }
-
-      // fill parent = 0
-      if (animatedPosition.value === 0) {
-        return SHEET_STATE.FILL_PARENT;
-      }
-
-      // detect if position is below extended point
-      if (animatedPosition.value < extendedPosition) {
-        return SHEET_STATE.OVER_EXTENDED;
-      }
-
-      return SHEET_STATE.OPENED;
-    }, [
-      animatedClosedPosition,
-      animatedContainerHeight,
-      animatedKeyboardHeightInContainer,
-      animatedPosition,
-      animatedSheetHeight,
-      isInTemporaryPosition,
-      keyboardBehavior,
-    ]);
+    /**
+     * The id of the imperative method call, which requested
+     * the running animation, or `0` if none.
+     */
+    const animatedAnimationRequestId = useSharedValue(0);
+    const animationRequestIdRef = useRef(0);
+    const animationRequestsRef = useRef<
+      Map<number, ((result: BottomSheetAnimationResult) => void)[]>
+    >(new Map());
+    /**
+     * The index and position the running animation started from.
+     */
+    const animatedAnimationOrigin = useSharedValue({
+      index: INITIAL_VALUE,
+      position: INITIAL_VALUE,
+    });
+    const eventListenersRef = useRef<Set<BottomSheetEventListener>>(new Set());
+    const animatedValuesListenersRef = useRef<
+      Set<BottomSheetAnimatedValuesListener>
+    >(new Set());
+    const focusedInputRef = useRef<RefObject<TextInput> | null>(null);
+    const keyboardSettleTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+    const restoredScrollOffsetRef = useRef<number | null>(null);
+    const persistScrollOffsetTimeoutRef =
+      useRef<ReturnType<typeof setTimeout>>();
+    const persistenceRef = useRef({ persistenceKey, persistenceStorage });
+    persistenceRef.current = { persistenceKey, persistenceStorage };
+    /**
+     * the keyboard behavior and snap index, overridden by
+     * the focused text input keyboard policy.
+     */
+    const animatedKeyboardBehavior = useDerivedValue(
+      () => keyboardPolicy.value?.keyboardBehavior ?? keyboardBehavior,
+      [keyboardPolicy, keyboardBehavior]
+    );
+    const animatedKeyboardSnapIndex = useDerivedValue(
+      () => keyboardPolicy.value?.keyboardSnapIndex ?? keyboardSnapIndex,
+      [keyboardPolicy, keyboardSnapIndex]
+    );
+    const animatedSheetState = useDerivedValue(
+      () =>
+        computeSheetState({
+          position: animatedPosition.value,
+          containerHeight: animatedContainerHeight.value,
+          closedPosition: animatedClosedPosition.value,
+          highestSnapPoint: animatedHighestSnapPoint.value,
+          keyboardHeightInContainer: animatedKeyboardHeightInContainer.value,
+          keyboardBehavior: animatedKeyboardBehavior.value,
+          isInTemporaryPosition: isInTemporaryPosition.value,
+        }),
+      [
+        animatedClosedPosition,
+        animatedContainerHeight,
+        animatedHighestSnapPoint,
+        animatedKeyboardHeightInContainer,
+        animatedPosition,
+        isInTemporaryPosition,
+        animatedKeyboardBehavior,
+      ]
+    );
     const animatedScrollableState = useDerivedValue<SCROLLABLE_STATE>(() => {
       /**
        * if user had disabled content panning gesture, then we unlock
@@ -402,6 +542,14 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
         return SCROLLABLE_STATE.UNLOCKED;
       }
 
+      /**
+       * scrollables hand-off is only supported on the bottom edge, so
+       * we unlock the scrollable state for other edges.
+       */
+      if (edge !== SHEET_EDGE.bottom) {
+        return SCROLLABLE_STATE.UNLOCKED;
+      }
+
       /**
        * if scrollable override state is set, then we just return its value.
        */
@@ -439,6 +587,7 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
       return SCROLLABLE_STATE.LOCKED;
     }, [
       enableContentPanningGesture,
+      edge,
       animatedAnimationState,
       animatedKeyboardState,
       animatedScrollableOverrideState,
@@ -447,16 +596,22 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
     // dynamic
     const animatedContentHeightMax = useDerivedValue(() => {
       const keyboardHeightInContainer = animatedKeyboardHeightInContainer.value;
-      const handleHeight = Math.max(0, animatedHandleHeight.value);
+      /**
+       * the header sits under the handle, outside of the content.
+       */
+      const handleHeight =
+        Math.max(0, animatedHandleHeight.value) + animatedHeaderHeight.value;
       let contentHeight = animatedSheetHeight.value - handleHeight;
+      const _keyboardBehavior = animatedKeyboardBehavior.value;
 
       if (
-        keyboardBehavior === KEYBOARD_BEHAVIOR.extend &&
+        (_keyboardBehavior === KEYBOARD_BEHAVIOR.extend ||
+          _keyboardBehavior === KEYBOARD_BEHAVIOR.snapToIndex) &&
         animatedKeyboardState.value === KEYBOARD_STATE.SHOWN
       ) {
         contentHeight = contentHeight - keyboardHeightInContainer;
       } else if (
-        keyboardBehavior === KEYBOARD_BEHAVIOR.fillParent &&
+        _keyboardBehavior === KEYBOARD_BEHAVIOR.fillParent &&
         isInTemporaryPosition.value
       ) {
         if (animatedKeyboardState.value === KEYBOARD_STATE.SHOWN) {
@@ -468,7 +623,7 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
           contentHeight = animatedContainerHeight.value - handleHeight;
         }
       } else if (
-        keyboardBehavior === KEYBOARD_BEHAVIOR.interactive &&
+        _keyboardBehavior === KEYBOARD_BEHAVIOR.interactive &&
         isInTemporaryPosition.value
       ) {
         const contentWithKeyboardHeight =
@@ -504,11 +659,12 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
     }, [
       animatedContainerHeight,
       animatedHandleHeight,
+      animatedHeaderHeight,
       animatedKeyboardHeightInContainer,
       animatedKeyboardState,
       animatedSheetHeight,
       isInTemporaryPosition,
-      keyboardBehavior,
+      animatedKeyboardBehavior,
     ]);
     const animatedIndex = useDerivedValue(() => {
       const adjustedSnapPoints = animatedSnapPoints.value.slice().reverse();
@@ -569,9 +725,81 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
       isInTemporaryPosition,
       isLayoutCalculated,
     ]);
+    const animatedValues = useMemo<BottomSheetAnimatedValues>(
+      () => ({
+        animatedIndex,
+        animatedPosition,
+        animatedVelocity,
+        animatedDragDirection,
+        animatedSnapPoints,
+        animatedClosedPosition,
+        animatedHighestSnapPoint,
+      }),
+      [
+        animatedIndex,
+        animatedPosition,
+        animatedVelocity,
+        animatedDragDirection,
+        animatedSnapPoints,
+        animatedClosedPosition,
+        animatedHighestSnapPoint,
+      ]
+    );
     //#endregion
 
     //#region private methods
+    /**
+     * Scroll the current scrollable to the provided content offset.
+     */
+    const scrollScrollableToOffset = useCallback(
+      function scrollScrollableToOffset(offset: number, animated: boolean) {
+        const scrollable = scrollableRef.current?.node.current;
+        if (!scrollable) {
+          return;
+        }
+
+        if ('scrollTo' in scrollable) {
+          scrollable.scrollTo({ y: offset, animated });
+        } else if ('scrollToOffset' in scrollable) {
+          scrollable.scrollToOffset({ offset, animated });
+        } else {
+          scrollable.getScrollResponder()?.scrollTo({
+            y: offset,
+            animated,
+          });
+        }
+      },
+      [scrollableRef]
+    );
+    /**
+     * Persist the sheet state, once the persisted state was restored.
+     */
+    const persistState = useStableCallback(function persistState(
+      index: number
+    ) {
+      if (!persistenceKey || !isPersistedStateRestored.value) {
+        return;
+      }
+
+      writePersistedState(persistenceStorage, persistenceKey, {
+        index,
+        scrollOffset: animatedScrollableContentOffsetY.value,
+        data: $persistedData,
+      });
+    });
+    /**
+     * Persist the scrollable content offset, once it settles after
+     * the drags and the momentum scrolls.
+     */
+    const handleOnScrollableContentOffsetSettle = useCallback(
+      function handleOnScrollableContentOffsetSettle() {
+        clearTimeout(persistScrollOffsetTimeoutRef.current);
+        persistScrollOffsetTimeoutRef.current = setTimeout(() => {
+          persistState(animatedCurrentIndex.value);
+        }, PERSIST_SCROLL_OFFSET_DELAY);
+      },
+      [persistState, animatedCurrentIndex]
+    );
     // biome-ignore lint/correctness/useExhaustiveDependencies(BottomSheet.name): used for debug only
     const handleOnChange = useCallback(
       function handleOnChange(index: number, position: number) {
@@ -587,6 +815,31 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
           });
         }
 
+        /**
+         * announce the snap point accessibility label, if provided,
+         * otherwise the sheet state announcement.
+         */
+        const accessibilityAnnouncement =
+          animatedSnapPointConfigs.value[index]?.accessibilityLabel ??
+          _providedAccessibilityAnnouncement?.(
+            index,
+            animatedSnapPoints.value.length
+          );
+        if (accessibilityAnnouncement) {
+          AccessibilityInfo.announceForAccessibility(accessibilityAnnouncement);
+        }
+
+        /**
+         * restore the persisted scrollable content offset, once
+         * the sheet settled at the restored index.
+         */
+        if (index !== -1 && restoredScrollOffsetRef.current !== null) {
+          scrollScrollableToOffset(restoredScrollOffsetRef.current, false);
+          restoredScrollOffsetRef.current = null;
+        }
+
+        persistState(index);
+
         if (!_providedOnChange) {
           return;
         }
@@ -596,10 +849,20 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
           position,
           index === animatedDynamicSnapPointIndex.value
             ? SNAP_POINT_TYPE.DYNAMIC
-            : SNAP_POINT_TYPE.PROVIDED
+            : SNAP_POINT_TYPE.PROVIDED,
+          animatedSnapPointConfigs.value[index]?.id
         );
       },
-      [_providedOnChange, animatedCurrentIndex, animatedDynamicSnapPointIndex]
+      [
+        _providedOnChange,
+        _providedAccessibilityAnnouncement,
+        animatedCurrentIndex,
+        animatedDynamicSnapPointIndex,
+        animatedSnapPointConfigs,
+        animatedSnapPoints,
+        scrollScrollableToOffset,
+        persistState,
+      ]
     );
     // biome-ignore lint/correctness/useExhaustiveDependencies(BottomSheet.name): used for debug only
     const handleOnAnimate = useCallback(
@@ -624,22 +887,300 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
           _providedOnAnimate(animatedCurrentIndex.value, targetIndex);
         }
       },
-      [_providedOnAnimate, animatedCurrentIndex]
+      [_providedOnAnimate, animatedCurrentIndex]
+    );
+    const handleOnEvent = useStableCallback(function handleOnEvent(
+      event: BottomSheetEvent
+    ) {
+      if (_providedOnEvent) {
+        _providedOnEvent(event);
+      }
+
+      for (const listener of eventListenersRef.current) {
+        listener(event);
+      }
+    });
+    const subscribeToEvents = useCallback(function subscribeToEvents(
+      listener: BottomSheetEventListener
+    ) {
+      eventListenersRef.current.add(listener);
+      return () => {
+        eventListenersRef.current.delete(listener);
+      };
+    }, []);
+    /**
+     * Scroll the current scrollable to bring the focused text input
+     * above the keyboard and the footer.
+     */
+    const handleScrollToFocusedInput = useCallback(
+      function handleScrollToFocusedInput() {
+        const input = focusedInputRef.current?.current;
+        const scrollable = scrollableRef.current?.node.current;
+        if (!input || !scrollable) {
+          return;
+        }
+
+        // the visible bottom edge of the sheet, in window coordinates.
+        const visibleBottom =
+          animatedContainerOffset.value.top +
+          ($modal ? topInset : 0) +
+          animatedContainerHeight.value -
+          animatedKeyboardHeightInContainer.value -
+          animatedFooterHeight.value -
+          keyboardScrollOffset;
+
+        input.measureInWindow((_x, y, _width, height) => {
+          const overlap = y + height - visibleBottom;
+          if (overlap <= 0) {
+            return;
+          }
+
+          scrollScrollableToOffset(
+            animatedScrollableContentOffsetY.value + overlap,
+            true
+          );
+        });
+      },
+      [
+        $modal,
+        topInset,
+        keyboardScrollOffset,
+        scrollableRef,
+        animatedContainerOffset,
+        animatedContainerHeight,
+        animatedKeyboardHeightInContainer,
+        animatedFooterHeight,
+        animatedScrollableContentOffsetY,
+        scrollScrollableToOffset,
+      ]
+    );
+    /**
+     * Scroll to the focused text input once the keyboard settles, frame
+     * accurate keyboard providers update the height on every frame, then
+     * we wait for the updates to stop.
+     */
+    const handleOnKeyboardSettle = useCallback(
+      function handleOnKeyboardSettle(isKeyboardShown: boolean) {
+        clearTimeout(keyboardSettleTimeoutRef.current);
+
+        if (!isKeyboardShown) {
+          return;
+        }
+
+        if (!isKeyboardFrameAccurate) {
+          handleScrollToFocusedInput();
+          return;
+        }
+
+        keyboardSettleTimeoutRef.current = setTimeout(
+          handleScrollToFocusedInput,
+          KEYBOARD_SETTLE_DELAY
+        );
+      },
+      [isKeyboardFrameAccurate, handleScrollToFocusedInput]
+    );
+    const setFocusedInputRef = useCallback(
+      function setFocusedInputRef(ref: RefObject<TextInput>) {
+        focusedInputRef.current = ref;
+
+        /**
+         * if the keyboard is already shown, then the keyboard reaction
+         * won't run, and we scroll to the input on the next frame.
+         */
+        if (animatedKeyboardState.value === KEYBOARD_STATE.SHOWN) {
+          requestAnimationFrame(handleScrollToFocusedInput);
+        }
+      },
+      [animatedKeyboardState, handleScrollToFocusedInput]
+    );
+    const removeFocusedInputRef = useCallback(function removeFocusedInputRef(
+      ref: RefObject<TextInput>
+    ) {
+      if (focusedInputRef.current === ref) {
+        focusedInputRef.current = null;
+      }
+    }, []);
+    /**
+     * Create an animation request for an imperative method call,
+     * which resolves once its animation ends or gets interrupted.
+     */
+    const createAnimationRequest = useCallback(
+      function createAnimationRequest() {
+        animationRequestIdRef.current += 1;
+        const requestId = animationRequestIdRef.current;
+        const promise = new Promise<BottomSheetAnimationResult>(resolve => {
+          animationRequestsRef.current.set(requestId, [resolve]);
+        });
+        return { requestId, promise };
+      },
+      []
+    );
+    /**
+     * Resolve an imperative method call, which could not
+     * start its animation.
+     */
+    const skipAnimationRequest = useCallback(
+      function skipAnimationRequest() {
+        return Promise.resolve<BottomSheetAnimationResult>({
+          finished: false,
+          index: animatedCurrentIndex.value,
+          position: animatedPosition.value,
+        });
+      },
+      [animatedCurrentIndex, animatedPosition]
+    );
+    const handleOnAnimationRequestEnd = useCallback(
+      function handleOnAnimationRequestEnd(
+        requestId: number,
+        finished: boolean,
+        index: number,
+        position: number,
+        interruptedBy?: ANIMATION_SOURCE
+      ) {
+        const resolvers = animationRequestsRef.current.get(requestId);
+        if (!resolvers) {
+          return;
+        }
+
+        animationRequestsRef.current.delete(requestId);
+        for (const resolve of resolvers) {
+          resolve(
+            finished
+              ? { finished, index, position }
+              : { finished, index, position, interruptedBy }
+          );
+        }
+      },
+      []
+    );
+    const handleOnAnimationRequestJoin = useCallback(
+      function handleOnAnimationRequestJoin(
+        requestId: number,
+        runningRequestId: number
+      ) {
+        const resolvers = animationRequestsRef.current.get(requestId);
+        const runningResolvers =
+          animationRequestsRef.current.get(runningRequestId);
+        if (!resolvers || !runningResolvers) {
+          return;
+        }
+
+        animationRequestsRef.current.delete(requestId);
+        runningResolvers.push(...resolvers);
+      },
+      []
+    );
+    //#endregion
+
+    //#region animation
+    const emitEvent = useWorkletCallback(
+      function emitEvent(event: BottomSheetEvent) {
+        runOnJS(handleOnEvent)(event);
+      },
+      [handleOnEvent]
+    );
+    /**
+     * End the animation request of the running animation, if any.
+     *
+     * @param finished whether the animation reached its destination.
+     * @param interruptedBy the animation source which interrupted the animation.
+     */
+    const endAnimationRequest = useWorkletCallback(
+      function endAnimationRequest(
+        finished: boolean,
+        interruptedBy?: ANIMATION_SOURCE
+      ) {
+        const requestId = animatedAnimationRequestId.value;
+        if (requestId === 0) {
+          return;
+        }
+
+        animatedAnimationRequestId.value = 0;
+        runOnJS(handleOnAnimationRequestEnd)(
+          requestId,
+          finished,
+          finished
+            ? animatedNextPositionIndex.value
+            : animatedCurrentIndex.value,
+          animatedPosition.value,
+          interruptedBy
+        );
+      },
+      [handleOnAnimationRequestEnd]
+    );
+    /**
+     * Attach an animation request to the running animation, or
+     * end it right away if no animation is running.
+     *
+     * @param requestId the animation request id.
+     */
+    const joinAnimationRequest = useWorkletCallback(
+      function joinAnimationRequest(requestId: number) {
+        if (animatedAnimationState.value !== ANIMATION_STATE.RUNNING) {
+          runOnJS(handleOnAnimationRequestEnd)(
+            requestId,
+            true,
+            animatedCurrentIndex.value,
+            animatedPosition.value
+          );
+          return;
+        }
+
+        if (animatedAnimationRequestId.value === 0) {
+          animatedAnimationRequestId.value = requestId;
+          return;
+        }
+
+        runOnJS(handleOnAnimationRequestJoin)(
+          requestId,
+          animatedAnimationRequestId.value
+        );
+      },
+      [handleOnAnimationRequestEnd, handleOnAnimationRequestJoin]
+    );
+    const stopAnimation = useWorkletCallback(
+      (source: ANIMATION_SOURCE = ANIMATION_SOURCE.NONE) => {
+        if (animatedAnimationState.value === ANIMATION_STATE.RUNNING) {
+          endAnimationRequest(false, source);
+          emitEvent({
+            type: 'animationInterrupted',
+            source: animatedAnimationSource.value,
+            interruptedBy: source,
+            fromIndex: animatedAnimationOrigin.value.index,
+            toIndex: animatedNextPositionIndex.value,
+            fromPosition: animatedAnimationOrigin.value.position,
+            toPosition: animatedNextPosition.value,
+          });
+        }
+
+        cancelAnimation(animatedPosition);
+        animatedAnimationSource.value = ANIMATION_SOURCE.NONE;
+        animatedAnimationState.value = ANIMATION_STATE.STOPPED;
+      },
+      [
+        animatedPosition,
+        animatedAnimationState,
+        animatedAnimationSource,
+        endAnimationRequest,
+        emitEvent,
+      ]
     );
-    //#endregion
-
-    //#region animation
-    const stopAnimation = useWorkletCallback(() => {
-      cancelAnimation(animatedPosition);
-      animatedAnimationSource.value = ANIMATION_SOURCE.NONE;
-      animatedAnimationState.value = ANIMATION_STATE.STOPPED;
-    }, [animatedPosition, animatedAnimationState, animatedAnimationSource]);
     const animateToPositionCompleted = useWorkletCallback(
       function animateToPositionCompleted(isFinished?: boolean) {
         if (!isFinished) {
           return;
         }
 
+        endAnimationRequest(true);
+        emitEvent({
+          type: 'animationEnd',
+          source: animatedAnimationSource.value,
+          fromIndex: animatedAnimationOrigin.value.index,
+          toIndex: animatedNextPositionIndex.value,
+          fromPosition: animatedAnimationOrigin.value.position,
+          toPosition: animatedPosition.value,
+        });
+
         if (__DEV__) {
           runOnJS(print)({
             component: BottomSheet.name,
@@ -670,7 +1211,8 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
         position: number,
         source: ANIMATION_SOURCE,
         velocity = 0,
-        configs?: WithTimingConfig | WithSpringConfig
+        configs?: WithTimingConfig | WithSpringConfig,
+        requestId = 0
       ) {
         if (__DEV__) {
           runOnJS(print)({
@@ -684,25 +1226,39 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
           });
         }
 
+        if (position === animatedPosition.value || position === undefined) {
+          if (requestId !== 0) {
+            runOnJS(handleOnAnimationRequestEnd)(
+              requestId,
+              true,
+              animatedCurrentIndex.value,
+              animatedPosition.value
+            );
+          }
+          return;
+        }
+
         if (
-          position === animatedPosition.value ||
-          position === undefined ||
-          (animatedAnimationState.value === ANIMATION_STATE.RUNNING &&
-            position === animatedNextPosition.value)
+          animatedAnimationState.value === ANIMATION_STATE.RUNNING &&
+          position === animatedNextPosition.value
         ) {
+          if (requestId !== 0) {
+            joinAnimationRequest(requestId);
+          }
           return;
         }
 
         // stop animation if it is running
         if (animatedAnimationState.value === ANIMATION_STATE.RUNNING) {
-          stopAnimation();
+          stopAnimation(source);
         }
 
         /**
-         * set animation state to running, and source
+         * set animation state to running, source and request id
          */
         animatedAnimationState.value = ANIMATION_STATE.RUNNING;
         animatedAnimationSource.value = source;
+        animatedAnimationRequestId.value = requestId;
 
         /**
          * store next position
@@ -722,16 +1278,32 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
         );
 
         /**
-         * fire `onAnimate` callback
+         * fire `onAnimate` callback and `animationStart` event
          */
         runOnJS(handleOnAnimate)(animatedNextPositionIndex.value);
+        animatedAnimationOrigin.value = {
+          index: animatedCurrentIndex.value,
+          position: animatedPosition.value,
+        };
+        emitEvent({
+          type: 'animationStart',
+          source,
+          fromIndex: animatedCurrentIndex.value,
+          toIndex: animatedNextPositionIndex.value,
+          fromPosition: animatedPosition.value,
+          toPosition: position,
+        });
 
         /**
          * start animation
          */
         animatedPosition.value = animate({
           point: position,
-          configs: configs || _providedAnimationConfigs,
+          configs:
+            configs ||
+            animatedSnapPointConfigs.value[animatedNextPositionIndex.value]
+              ?.animationConfigs ||
+            _providedAnimationConfigs,
           velocity,
           overrideReduceMotion: _providedOverrideReduceMotion,
           onComplete: animateToPositionCompleted,
@@ -739,6 +1311,9 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
       },
       [
         handleOnAnimate,
+        handleOnAnimationRequestEnd,
+        joinAnimationRequest,
+        emitEvent,
         _providedAnimationConfigs,
         _providedOverrideReduceMotion,
       ]
@@ -794,107 +1369,59 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
     const getEvaluatedPosition = useWorkletCallback(
       function getEvaluatedPosition(source: ANIMATION_SOURCE) {
         'worklet';
-        const currentIndex = animatedCurrentIndex.value;
-        const snapPoints = animatedSnapPoints.value;
-        const keyboardState = animatedKeyboardState.value;
-        const highestSnapPoint = animatedHighestSnapPoint.value;
-
-        /**
-         * if the keyboard blur behavior is restore and keyboard is hidden,
-         * then we return the previous snap point.
-         */
-        if (
-          source === ANIMATION_SOURCE.KEYBOARD &&
-          keyboardBlurBehavior === KEYBOARD_BLUR_BEHAVIOR.restore &&
-          keyboardState === KEYBOARD_STATE.HIDDEN &&
-          animatedContentGestureState.value !== State.ACTIVE &&
-          animatedHandleGestureState.value !== State.ACTIVE
-        ) {
-          isInTemporaryPosition.value = false;
-          const nextPosition = snapPoints[currentIndex];
-          return nextPosition;
-        }
-
-        /**
-         * if the keyboard appearance behavior is extend and keyboard is shown,
-         * then we return the heights snap point.
-         */
-        if (
-          keyboardBehavior === KEYBOARD_BEHAVIOR.extend &&
-          keyboardState === KEYBOARD_STATE.SHOWN
-        ) {
-          return highestSnapPoint;
-        }
-
-        /**
-         * if the keyboard appearance behavior is fill parent and keyboard is shown,
-         * then we return 0 ( full screen ).
-         */
-        if (
-          keyboardBehavior === KEYBOARD_BEHAVIOR.fillParent &&
-          keyboardState === KEYBOARD_STATE.SHOWN
-        ) {
-          isInTemporaryPosition.value = true;
-          return 0;
-        }
-
-        /**
-         * if the keyboard appearance behavior is interactive and keyboard is shown,
-         * then we return the heights points minus the keyboard in container height.
-         */
-        if (
-          keyboardBehavior === KEYBOARD_BEHAVIOR.interactive &&
-          keyboardState === KEYBOARD_STATE.SHOWN &&
-          // ensure that this logic does not run on android
-          // with resize input mode
-          !(
-            Platform.OS === 'android' &&
-            android_keyboardInputMode === 'adjustResize'
-          )
-        ) {
-          isInTemporaryPosition.value = true;
-          const keyboardHeightInContainer =
-            animatedKeyboardHeightInContainer.value;
-          return Math.max(0, highestSnapPoint - keyboardHeightInContainer);
-        }
-
-        /**
-         * if the bottom sheet is in temporary position, then we return
-         * the current position.
-         */
-        if (isInTemporaryPosition.value) {
-          return animatedPosition.value;
-        }
-
-        /**
-         * if the bottom sheet did not animate on mount,
-         * then we return the provided index or the closed position.
-         */
-        if (!isAnimatedOnMount.value) {
-          return _providedIndex === -1
-            ? animatedClosedPosition.value
-            : snapPoints[_providedIndex];
-        }
+        const { position, isInTemporaryPosition: _isInTemporaryPosition } =
+          computeTargetPosition({
+            source,
+            snapPoints: animatedSnapPoints.value,
+            currentIndex: animatedCurrentIndex.value,
+            currentPosition: animatedPosition.value,
+            closedPosition: animatedClosedPosition.value,
+            providedIndex: Math.min(
+              animatedProvidedIndex.value,
+              animatedSnapPoints.value.length - 1
+            ),
+            isAnimatedOnMount: isAnimatedOnMount.value,
+            isInTemporaryPosition: isInTemporaryPosition.value,
+            isGestureActive:
+              animatedContentGestureState.value === State.ACTIVE ||
+              animatedHandleGestureState.value === State.ACTIVE,
+            /**
+             * the keyboard does not overlap sheets which are not anchored
+             * to the bottom edge, so we ignore its state.
+             */
+            keyboardState:
+              edge === SHEET_EDGE.bottom
+                ? animatedKeyboardState.value
+                : KEYBOARD_STATE.UNDETERMINED,
+            keyboardHeightInContainer: animatedKeyboardHeightInContainer.value,
+            keyboardBehavior: animatedKeyboardBehavior.value,
+            keyboardSnapIndex: animatedKeyboardSnapIndex.value,
+            keyboardBlurBehavior,
+            isKeyboardResizingContainer:
+              Platform.OS === 'android' &&
+              android_keyboardInputMode === KEYBOARD_INPUT_MODE.adjustResize,
+          });
 
-        /**
-         * return the current index position.
-         */
-        return snapPoints[currentIndex];
+        isInTemporaryPosition.value = _isInTemporaryPosition;
+        return position;
       },
       [
+        animatedClosedPosition,
         animatedContentGestureState,
         animatedCurrentIndex,
         animatedHandleGestureState,
-        animatedHighestSnapPoint,
         animatedKeyboardHeightInContainer,
         animatedKeyboardState,
         animatedPosition,
         animatedSnapPoints,
         isInTemporaryPosition,
         isAnimatedOnMount,
-        keyboardBehavior,
+        edge,
+        animatedKeyboardBehavior,
+        animatedKeyboardSnapIndex,
         keyboardBlurBehavior,
-        _providedIndex,
+        android_keyboardInputMode,
+        animatedProvidedIndex,
       ]
     );
 
@@ -913,9 +1440,10 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
           return;
         }
         /**
-         * when evaluating the position while layout is not calculated, then we early exit till it is.
+         * when evaluating the position while layout is not calculated, or the persisted
+         * state is not restored, then we early exit till it is.
          */
-        if (!isLayoutCalculated.value) {
+        if (!isLayoutCalculated.value || !isPersistedStateRestored.value) {
           return;
         }
 
@@ -1020,6 +1548,34 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
       },
       [getEvaluatedPosition, animateToPosition, setToPosition, reduceMotion]
     );
+
+    /**
+     * Mount the sheet at the restored index, if any, then evaluate
+     * its position, which was on hold till the state is restored.
+     */
+    const restorePersistedState = useWorkletCallback(
+      function restorePersistedState(index: number | null) {
+        if (index !== null) {
+          animatedProvidedIndex.value = index;
+          isAnimatedOnMount.value = index === -1;
+          if (index === -1) {
+            animatedCurrentIndex.value = -1;
+          }
+        }
+
+        isPersistedStateRestored.value = true;
+        evaluatePosition(ANIMATION_SOURCE.MOUNT);
+      },
+      [evaluatePosition]
+    );
+    const handleRestorePersistedState = useStableCallback(
+      function handleRestorePersistedState(
+        state: BottomSheetPersistedState | undefined
+      ) {
+        restoredScrollOffsetRef.current = state?.scrollOffset || null;
+        runOnUI(restorePersistedState)(state ? state.index : null);
+      }
+    );
     //#endregion
 
     //#region public methods
@@ -1049,16 +1605,28 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
       /**
        * exit method if :
        * - layout is not calculated.
-       * - already animating to next position.
+       * - persisted state is not restored.
        * - sheet is forced closing.
        */
       if (
         !isLayoutCalculated.value ||
-        index === animatedNextPositionIndex.value ||
-        nextPosition === animatedNextPosition.value ||
+        !isPersistedStateRestored.value ||
         isForcedClosing.value
       ) {
-        return;
+        return skipAnimationRequest();
+      }
+
+      const { requestId, promise } = createAnimationRequest();
+
+      /**
+       * join the running animation, if already animating to next position.
+       */
+      if (
+        index === animatedNextPositionIndex.value ||
+        nextPosition === animatedNextPosition.value
+      ) {
+        runOnUI(joinAnimationRequest)(requestId);
+        return promise;
       }
 
       /**
@@ -1070,9 +1638,28 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
         nextPosition,
         ANIMATION_SOURCE.USER,
         0,
-        animationConfigs
+        animationConfigs,
+        requestId
       );
-    });
+      return promise;
+    }) as BottomSheetMethods['snapToIndex'];
+    const handleSnapToId = useCallback(
+      function handleSnapToId(
+        id: string,
+        animationConfigs?: WithSpringConfig | WithTimingConfig
+      ) {
+        const index = animatedSnapPointConfigs.value.findIndex(
+          config => config?.id === id
+        );
+        invariant(
+          index !== -1,
+          `'id' was provided but not found in the provided snap points! expected one of the snap point ids, received '${id}'`
+        );
+
+        return handleSnapToIndex(index, animationConfigs);
+      },
+      [animatedSnapPointConfigs, handleSnapToIndex]
+    );
     const handleSnapToPosition = useWorkletCallback(
       function handleSnapToPosition(
         position: number | string,
@@ -1091,10 +1678,17 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
         /**
          * normalized provided position.
          */
-        const nextPosition = normalizeSnapPoint(
-          position,
-          animatedContainerHeight.value
-        );
+        const nextPosition = normalizeSnapPoint(position, {
+          containerHeight: animatedContainerHeight.value,
+          contentHeight: animatedContentHeight.value,
+          handleHeight: animatedHandleHeight.value,
+          headerHeight: animatedHeaderHeight.value,
+          footerHeight: animatedFooterHeight.value,
+          keyboardHeight: animatedKeyboardHeight.value,
+          topInset,
+          bottomInset,
+          maxDynamicContentSize,
+        });
 
         /**
          * exit method if :
@@ -1126,6 +1720,7 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
         animateToPosition,
         bottomInset,
         topInset,
+        maxDynamicContentSize,
         isLayoutCalculated,
         isForcedClosing,
         animatedContainerHeight,
@@ -1149,15 +1744,20 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
         /**
          * exit method if :
          * - layout is not calculated.
-         * - already animating to next position.
          * - sheet is forced closing.
          */
-        if (
-          !isLayoutCalculated.value ||
-          nextPosition === animatedNextPosition.value ||
-          isForcedClosing.value
-        ) {
-          return;
+        if (!isLayoutCalculated.value || isForcedClosing.value) {
+          return skipAnimationRequest();
+        }
+
+        const { requestId, promise } = createAnimationRequest();
+
+        /**
+         * join the running animation, if already animating to next position.
+         */
+        if (nextPosition === animatedNextPosition.value) {
+          runOnUI(joinAnimationRequest)(requestId);
+          return promise;
         }
 
         /**
@@ -1169,11 +1769,16 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
           nextPosition,
           ANIMATION_SOURCE.USER,
           0,
-          animationConfigs
+          animationConfigs,
+          requestId
         );
+        return promise;
       },
       [
         animateToPosition,
+        createAnimationRequest,
+        skipAnimationRequest,
+        joinAnimationRequest,
         isForcedClosing,
         isLayoutCalculated,
         isInTemporaryPosition,
@@ -1195,8 +1800,10 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
 
         const nextPosition = animatedClosedPosition.value;
 
+        const { requestId, promise } = createAnimationRequest();
+
         /**
-         * exit method if :
+         * join the running animation, if :
          * - already animating to next position.
          * - sheet is forced closing.
          */
@@ -1204,7 +1811,8 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
           nextPosition === animatedNextPosition.value ||
           isForcedClosing.value
         ) {
-          return;
+          runOnUI(joinAnimationRequest)(requestId);
+          return promise;
         }
 
         /**
@@ -1221,11 +1829,15 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
           nextPosition,
           ANIMATION_SOURCE.USER,
           0,
-          animationConfigs
+          animationConfigs,
+          requestId
         );
+        return promise;
       },
       [
         animateToPosition,
+        createAnimationRequest,
+        joinAnimationRequest,
         isForcedClosing,
         isInTemporaryPosition,
         animatedNextPosition,
@@ -1250,16 +1862,23 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
         /**
          * exit method if :
          * - layout is not calculated.
-         * - already animating to next position.
          * - sheet is forced closing.
          */
+        if (!isLayoutCalculated.value || isForcedClosing.value) {
+          return skipAnimationRequest();
+        }
+
+        const { requestId, promise } = createAnimationRequest();
+
+        /**
+         * join the running animation, if already animating to next position.
+         */
         if (
-          !isLayoutCalculated.value ||
           snapPoints.length - 1 === animatedNextPositionIndex.value ||
-          nextPosition === animatedNextPosition.value ||
-          isForcedClosing.value
+          nextPosition === animatedNextPosition.value
         ) {
-          return;
+          runOnUI(joinAnimationRequest)(requestId);
+          return promise;
         }
 
         /**
@@ -1271,11 +1890,16 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
           nextPosition,
           ANIMATION_SOURCE.USER,
           0,
-          animationConfigs
+          animationConfigs,
+          requestId
         );
+        return promise;
       },
       [
         animateToPosition,
+        createAnimationRequest,
+        skipAnimationRequest,
+        joinAnimationRequest,
         isInTemporaryPosition,
         isLayoutCalculated,
         isForcedClosing,
@@ -1301,16 +1925,23 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
         /**
          * exit method if :
          * - layout is not calculated.
-         * - already animating to next position.
          * - sheet is forced closing.
          */
+        if (!isLayoutCalculated || isForcedClosing.value) {
+          return skipAnimationRequest();
+        }
+
+        const { requestId, promise } = createAnimationRequest();
+
+        /**
+         * join the running animation, if already animating to next position.
+         */
         if (
-          !isLayoutCalculated ||
           animatedNextPositionIndex.value === 0 ||
-          nextPosition === animatedNextPosition.value ||
-          isForcedClosing.value
+          nextPosition === animatedNextPosition.value
         ) {
-          return;
+          runOnUI(joinAnimationRequest)(requestId);
+          return promise;
         }
 
         /**
@@ -1322,11 +1953,16 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
           nextPosition,
           ANIMATION_SOURCE.USER,
           0,
-          animationConfigs
+          animationConfigs,
+          requestId
         );
+        return promise;
       },
       [
         animateToPosition,
+        createAnimationRequest,
+        skipAnimationRequest,
+        joinAnimationRequest,
         isForcedClosing,
         isLayoutCalculated,
         isInTemporaryPosition,
@@ -1336,13 +1972,28 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
       ]
     );
 
+    const handleSubscribeToAnimatedValues = useCallback(
+      function handleSubscribeToAnimatedValues(
+        listener: BottomSheetAnimatedValuesListener
+      ) {
+        animatedValuesListenersRef.current.add(listener);
+        listener(animatedValues);
+        return () => {
+          animatedValuesListenersRef.current.delete(listener);
+        };
+      },
+      [animatedValues]
+    );
+
     useImperativeHandle(ref, () => ({
       snapToIndex: handleSnapToIndex,
+      snapToId: handleSnapToId,
       snapToPosition: handleSnapToPosition,
       expand: handleExpand,
       collapse: handleCollapse,
       close: handleClose,
       forceClose: handleForceClose,
+      subscribeToAnimatedValues: handleSubscribeToAnimatedValues,
     }));
     //#endregion
 
@@ -1350,34 +2001,46 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
     const internalContextVariables = useMemo(
       () => ({
         enableContentPanningGesture,
+        enableAxisLocking,
+        axisLockingSlop,
         enableDynamicSizing,
         overDragResistanceFactor,
         enableOverDrag,
         enablePanDownToClose,
+        edge,
+        snapStrategy,
         animatedAnimationState,
         animatedSheetState,
         animatedScrollableState,
         animatedScrollableOverrideState,
         animatedContentGestureState,
         animatedHandleGestureState,
+        animatedDragDirection,
         animatedKeyboardState,
         animatedScrollableType,
         animatedIndex,
+        animatedCurrentIndex,
         animatedPosition,
+        animatedVelocity,
         animatedContentHeight,
         animatedClosedPosition,
         animatedHandleHeight,
+        animatedHeaderHeight,
         animatedFooterHeight,
         animatedKeyboardHeight,
         animatedKeyboardHeightInContainer,
         animatedContainerHeight,
+        animatedContainerCrossSize,
         animatedSnapPoints,
+        animatedSnapPointConfigs,
         animatedHighestSnapPoint,
         animatedScrollableContentOffsetY,
         isInTemporaryPosition,
         isContentHeightFixed,
         isScrollableRefreshable,
+        animatedActiveScrollableId,
         shouldHandleKeyboardEvents,
+        keyboardPolicy,
         simultaneousHandlers: _providedSimultaneousHandlers,
         waitFor: _providedWaitFor,
         activeOffsetX: _providedActiveOffsetX,
@@ -1387,20 +2050,31 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
         enableBlurKeyboardOnGesture,
         animateToPosition,
         stopAnimation,
+        emitEvent,
+        subscribeToEvents,
         setScrollableRef,
         removeScrollableRef,
+        registerScrollable,
+        unregisterScrollable,
+        setFocusedInputRef,
+        removeFocusedInputRef,
       }),
       [
         animatedIndex,
+        animatedCurrentIndex,
         animatedPosition,
         animatedContentHeight,
         animatedScrollableType,
         animatedContentGestureState,
         animatedHandleGestureState,
+        animatedDragDirection,
+        animatedVelocity,
         animatedClosedPosition,
         animatedFooterHeight,
         animatedContainerHeight,
+        animatedContainerCrossSize,
         animatedHandleHeight,
+        animatedHeaderHeight,
         animatedAnimationState,
         animatedKeyboardState,
         animatedKeyboardHeight,
@@ -1410,17 +2084,24 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
         animatedScrollableState,
         animatedScrollableOverrideState,
         animatedSnapPoints,
+        animatedSnapPointConfigs,
         shouldHandleKeyboardEvents,
+        keyboardPolicy,
         animatedScrollableContentOffsetY,
         isScrollableRefreshable,
+        animatedActiveScrollableId,
         isContentHeightFixed,
         isInTemporaryPosition,
         enableContentPanningGesture,
+        enableAxisLocking,
+        axisLockingSlop,
         overDragResistanceFactor,
         enableOverDrag,
         enablePanDownToClose,
         enableDynamicSizing,
         enableBlurKeyboardOnGesture,
+        edge,
+        snapStrategy,
         _providedSimultaneousHandlers,
         _providedWaitFor,
         _providedActiveOffsetX,
@@ -1429,51 +2110,87 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
         _providedFailOffsetY,
         setScrollableRef,
         removeScrollableRef,
+        registerScrollable,
+        unregisterScrollable,
+        setFocusedInputRef,
+        removeFocusedInputRef,
         animateToPosition,
         stopAnimation,
+        emitEvent,
+        subscribeToEvents,
       ]
     );
     const externalContextVariables = useMemo(
       () => ({
         animatedIndex,
         animatedPosition,
+        animatedVelocity,
+        animatedDragDirection,
         snapToIndex: handleSnapToIndex,
+        snapToId: handleSnapToId,
         snapToPosition: handleSnapToPosition,
         expand: handleExpand,
         collapse: handleCollapse,
         close: handleClose,
         forceClose: handleForceClose,
+        subscribeToAnimatedValues: handleSubscribeToAnimatedValues,
       }),
       [
         animatedIndex,
         animatedPosition,
+        animatedVelocity,
+        animatedDragDirection,
         handleSnapToIndex,
+        handleSnapToId,
         handleSnapToPosition,
         handleExpand,
         handleCollapse,
         handleClose,
         handleForceClose,
+        handleSubscribeToAnimatedValues,
       ]
     );
     //#endregion
 
     //#region styles
-    const containerAnimatedStyle = useAnimatedStyle(
-      () => ({
-        opacity:
-          Platform.OS === 'android' && animatedIndex.value === -1 ? 0 : 1,
-        transform: [
-          {
-            translateY: animatedPosition.value,
-          },
-        ],
-      }),
-      [animatedPosition, animatedIndex]
-    );
-    const containerStyle = useMemo(
-      () => [_providedStyle, styles.container, containerAnimatedStyle],
-      [_providedStyle, containerAnimatedStyle]
-    );
+    const containerAnimatedStyle = useAnimatedStyle(() => {
+      const opacity =
+        Platform.OS === 'android' && animatedIndex.value === -1 ? 0 : 1;
+
+      switch (edge) {
+        case SHEET_EDGE.top:
+          return {
+            opacity,
+            transform: [{ translateY: -animatedPosition.value }],
+          };
+        case SHEET_EDGE.left:
+          return {
+            opacity,
+            transform: [{ translateX: -animatedPosition.value }],
+          };
+        case SHEET_EDGE.right:
+          return {
+            opacity,
+            transform: [{ translateX: animatedPosition.value }],
+          };
+        default:
+          return {
+            opacity,
+            transform: [{ translateY: animatedPosition.value }],
+          };
+      }
+    }, [animatedPosition, animatedIndex, edge]);
+    const containerStyle = useMemo(() => {
+      let edgeContainerStyle: ViewStyle = styles.container;
+      if (edge === SHEET_EDGE.top) {
+        edgeContainerStyle = styles.topEdgeContainer;
+      } else if (edge === SHEET_EDGE.left) {
+        edgeContainerStyle = styles.leftEdgeContainer;
+      } else if (edge === SHEET_EDGE.right) {
+        edgeContainerStyle = styles.rightEdgeContainer;
+      }
+      return [_providedStyle, edgeContainerStyle, containerAnimatedStyle];
+    }, [_providedStyle, edge, containerAnimatedStyle]);
     const contentContainerAnimatedStyle = useAnimatedStyle(() => {
       /**
        * if dynamic sizing is enabled, and content height
@@ -1486,14 +2203,15 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
         return {};
       }
 
-      return {
-        height: animate({
-          point: animatedContentHeightMax.value,
-          configs: _providedAnimationConfigs,
-          overrideReduceMotion: _providedOverrideReduceMotion,
-        }),
-      };
+      const size = animate({
+        point: animatedContentHeightMax.value,
+        configs: _providedAnimationConfigs,
+        overrideReduceMotion: _providedOverrideReduceMotion,
+      });
+
+      return isHorizontalEdge ? { width: size } : { height: size };
     }, [
+      isHorizontalEdge,
       enableDynamicSizing,
       animatedContentHeight,
       animatedContentHeightMax,
@@ -1505,8 +2223,8 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
       [contentContainerAnimatedStyle]
     );
     /**
-     * added safe area to prevent the sheet from floating above
-     * the bottom of the screen, when sheet being over dragged or
+     * added safe area to prevent the sheet from floating away from
+     * the anchored edge of the screen, when sheet being over dragged or
      * when the sheet is resized.
      */
     const contentMaskContainerAnimatedStyle = useAnimatedStyle(() => {
@@ -1515,10 +2233,26 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
           overflow: 'visible',
         };
       }
-      return {
-        paddingBottom: animatedContainerHeight.value,
-      };
-    }, [animatedContainerHeight, detached]);
+
+      switch (edge) {
+        case SHEET_EDGE.top:
+          return {
+            paddingTop: animatedContainerHeight.value,
+          };
+        case SHEET_EDGE.left:
+          return {
+            paddingLeft: animatedContainerHeight.value,
+          };
+        case SHEET_EDGE.right:
+          return {
+            paddingRight: animatedContainerHeight.value,
+          };
+        default:
+          return {
+            paddingBottom: animatedContainerHeight.value,
+          };
+      }
+    }, [animatedContainerHeight, detached, edge]);
     const contentMaskContainerStyle = useMemo(
       () => [styles.contentMaskContainer, contentMaskContainerAnimatedStyle],
       [contentMaskContainerAnimatedStyle]
@@ -1631,6 +2365,14 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
           return;
         }
 
+        /**
+         * if the sheet is not anchored to the bottom edge, then the keyboard
+         * won't overlap it, and we early exit.
+         */
+        if (edge !== SHEET_EDGE.bottom) {
+          return;
+        }
+
         /**
          * if keyboard is hidden by customer gesture, then we early exit.
          */
@@ -1658,16 +2400,12 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
          * Calculate the keyboard height in the container.
          */
         animatedKeyboardHeightInContainer.value =
-          _keyboardHeight === 0
-            ? 0
-            : $modal
-              ? Math.abs(
-                  _keyboardHeight -
-                    Math.abs(bottomInset - animatedContainerOffset.value.bottom)
-                )
-              : Math.abs(
-                  _keyboardHeight - animatedContainerOffset.value.bottom
-                );
+          computeKeyboardHeightInContainer({
+            keyboardHeight: _keyboardHeight,
+            containerBottomOffset: animatedContainerOffset.value.bottom,
+            bottomInset,
+            modal: $modal,
+          });
 
         /**
          * if platform is android and the input mode is resize, then exit the method
@@ -1678,7 +2416,9 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
         ) {
           animatedKeyboardHeightInContainer.value = 0;
 
-          if (keyboardBehavior === KEYBOARD_BEHAVIOR.interactive) {
+          if (
+            animatedKeyboardBehavior.value === KEYBOARD_BEHAVIOR.interactive
+          ) {
             return;
           }
         }
@@ -1710,19 +2450,128 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
           keyboardAnimationDuration.value
         );
 
-        evaluatePosition(ANIMATION_SOURCE.KEYBOARD, animationConfigs);
+        const fromIndex = animatedCurrentIndex.value;
+        const fromPosition = animatedPosition.value;
+
+        /**
+         * if the keyboard height is tracked on every frame, then the sheet
+         * follows the keyboard while it is shown, instead of animating.
+         */
+        const isFollowingKeyboard =
+          isKeyboardFrameAccurate &&
+          _keyboardState === KEYBOARD_STATE.SHOWN &&
+          animatedKeyboardBehavior.value === KEYBOARD_BEHAVIOR.interactive &&
+          isLayoutCalculated.value &&
+          isAnimatedOnMount.value &&
+          !isForcedClosing.value;
+        if (isFollowingKeyboard) {
+          setToPosition(getEvaluatedPosition(ANIMATION_SOURCE.KEYBOARD));
+        } else {
+          evaluatePosition(ANIMATION_SOURCE.KEYBOARD, animationConfigs);
+        }
+
+        /**
+         * frame accurate height updates are not reported, only the
+         * keyboard state changes.
+         */
+        if (
+          isKeyboardFrameAccurate &&
+          _keyboardState === _previousKeyboardState
+        ) {
+          return;
+        }
+
+        const isAnimating =
+          animatedAnimationState.value === ANIMATION_STATE.RUNNING;
+        emitEvent({
+          type: 'keyboardAdjust',
+          source: ANIMATION_SOURCE.KEYBOARD,
+          keyboardState: _keyboardState,
+          keyboardHeight: animatedKeyboardHeightInContainer.value,
+          fromIndex,
+          toIndex: isAnimating ? animatedNextPositionIndex.value : fromIndex,
+          fromPosition,
+          toPosition: isAnimating
+            ? animatedNextPosition.value
+            : animatedPosition.value,
+        });
       },
       [
         $modal,
+        edge,
         bottomInset,
-        keyboardBehavior,
+        animatedKeyboardBehavior,
         keyboardBlurBehavior,
         android_keyboardInputMode,
         animatedContainerOffset,
+        isKeyboardFrameAccurate,
         getEvaluatedPosition,
+        setToPosition,
+        emitEvent,
       ]
     );
 
+    /**
+     * Reaction to the keyboard settling, to scroll the focused
+     * text input into view.
+     *
+     * @alias OnKeyboardSettle
+     */
+    useAnimatedReaction(
+      () =>
+        animatedKeyboardState.value === KEYBOARD_STATE.SHOWN &&
+        animatedAnimationState.value !== ANIMATION_STATE.RUNNING
+          ? animatedKeyboardHeightInContainer.value
+          : -1,
+      (result, previous) => {
+        if (result === previous || (result === -1 && previous === null)) {
+          return;
+        }
+
+        /**
+         * if the keyboard got hidden or the sheet started animating,
+         * then the pending scroll gets cancelled.
+         */
+        runOnJS(handleOnKeyboardSettle)(result !== -1);
+      },
+      [handleOnKeyboardSettle]
+    );
+
+    /**
+     * Reaction to the sheet state change.
+     *
+     * @alias OnSheetStateChange
+     */
+    useAnimatedReaction(
+      () => animatedSheetState.value,
+      (_sheetState, _previousSheetState) => {
+        if (
+          _previousSheetState === null ||
+          _sheetState === _previousSheetState
+        ) {
+          return;
+        }
+
+        const isAnimating =
+          animatedAnimationState.value === ANIMATION_STATE.RUNNING;
+        emitEvent({
+          type: 'sheetStateChange',
+          source: animatedAnimationSource.value,
+          fromState: _previousSheetState,
+          toState: _sheetState,
+          fromIndex: animatedCurrentIndex.value,
+          toIndex: isAnimating
+            ? animatedNextPositionIndex.value
+            : animatedCurrentIndex.value,
+          fromPosition: animatedPosition.value,
+          toPosition: isAnimating
+            ? animatedNextPosition.value
+            : animatedPosition.value,
+        });
+      },
+      [emitEvent]
+    );
+
     /**
      * sets provided animated position
      */
@@ -1882,6 +2731,112 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
 
       handleSnapToIndex(_providedIndex);
     }, [animateOnMount, _providedIndex, isAnimatedOnMount, handleSnapToIndex]);
+
+    /**
+     * React to `activeScrollableId` prop to activate the registered
+     * scrollable, when switching between tabs.
+     */
+    useEffect(() => {
+      setActiveScrollableId(_providedActiveScrollableId ?? null);
+    }, [_providedActiveScrollableId, setActiveScrollableId]);
+
+    /**
+     * Restore the persisted state on mount, and persist the
+     * latest state on unmount.
+     */
+    useEffect(() => {
+      const { persistenceKey: key, persistenceStorage: storage } =
+        persistenceRef.current;
+      if (!key) {
+        return;
+      }
+
+      let isUnmounted = false;
+      readPersistedState(storage, key).then(state => {
+        if (isUnmounted) {
+          return;
+        }
+
+        handleRestorePersistedState(state);
+      });
+
+      return () => {
+        isUnmounted = true;
+        clearTimeout(persistScrollOffsetTimeoutRef.current);
+        persistState(animatedCurrentIndex.value);
+        // skip the changes reported after unmount, like the closing animation.
+        isPersistedStateRestored.value = false;
+      };
+    }, [
+      handleRestorePersistedState,
+      persistState,
+      animatedCurrentIndex,
+      isPersistedStateRestored,
+    ]);
+
+    /**
+     * Persist the scrollable content offset, when it changes after
+     * the drags and the momentum scrolls.
+     */
+    useAnimatedReaction(
+      () => animatedScrollableContentOffsetY.value,
+      (offset, previousOffset) => {
+        if (
+          !persistenceKey ||
+          previousOffset === null ||
+          offset === previousOffset
+        ) {
+          return;
+        }
+
+        runOnJS(handleOnScrollableContentOffsetSettle)();
+      },
+      [persistenceKey, handleOnScrollableContentOffsetSettle]
+    );
+
+    /**
+     * Notify the animated values listeners, once the sheet mounts
+     * and once it unmounts.
+     */
+    useEffect(() => {
+      const listeners = animatedValuesListenersRef.current;
+      for (const listener of listeners) {
+        listener(animatedValues);
+      }
+      _providedOnAnimatedValuesChange?.(animatedValues);
+      return () => {
+        for (const listener of listeners) {
+          listener(undefined);
+        }
+        _providedOnAnimatedValuesChange?.(undefined);
+      };
+    }, [animatedValues, _providedOnAnimatedValuesChange]);
+
+    /**
+     * Cancel the pending keyboard settle scroll, when the sheet unmounts.
+     */
+    useEffect(() => {
+      return () => {
+        clearTimeout(keyboardSettleTimeoutRef.current);
+      };
+    }, []);
+
+    /**
+     * Resolve pending animation requests, when the sheet unmounts.
+     */
+    useEffect(() => {
+      const animationRequests = animationRequestsRef.current;
+      return () => {
+        for (const requestId of Array.from(animationRequests.keys())) {
+          handleOnAnimationRequestEnd(
+            requestId,
+            false,
+            animatedCurrentIndex.value,
+            animatedPosition.value
+          );
+        }
+      };
+    }, [handleOnAnimationRequestEnd, animatedCurrentIndex, animatedPosition]);
     //#endregion
 
     // render
@@ -1904,13 +2859,17 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
               key="BottomSheetContainer"
               shouldCalculateHeight={!$modal}
               containerHeight={_animatedContainerHeight}
+              containerWidth={_animatedContainerWidth}
               containerOffset={animatedContainerOffset}
               topInset={topInset}
               bottomInset={bottomInset}
               detached={detached}
               style={_providedContainerStyle}
             >
-              <Animated.View style={containerStyle}>
+              <Animated.View
+                style={containerStyle}
+                accessibilityViewIsModal={$modal}
+              >
                 <BottomSheetBackgroundContainer
                   key="BottomSheetBackgroundContainer"
                   animatedIndex={animatedIndex}
@@ -1937,9 +2896,20 @@ const BottomSheetComponent = forwardRef<BottomSheet, BottomSheetProps>(
                   {footerComponent && (
                     <BottomSheetFooterContainer
                       footerComponent={footerComponent}
+                      footerBehavior={footerBehavior}
+                      enableFooterHideOnScroll={enableFooterHideOnScroll}
                     />
                   )}
                 </Animated.View>
+                {headerComponent && (
+                  <BottomSheetHeaderContainer
+                    key="BottomSheetHeaderContainer"
+                    animatedIndex={animatedIndex}
+                    animatedPosition={animatedPosition}
+                    enableHandlePanningGesture={enableHandlePanningGesture}
+                    headerComponent={headerComponent}
+                  />
+                )}
                 <BottomSheetHandleContainer
                   key="BottomSheetHandleContainer"
                   animatedIndex={animatedIndex}
@@ -1,30 +1,61 @@
 import {
+  FOOTER_BEHAVIOR,
   KEYBOARD_BEHAVIOR,
   KEYBOARD_BLUR_BEHAVIOR,
   KEYBOARD_INPUT_MODE,
   SCREEN_HEIGHT,
+  SHEET_EDGE,
 } from '../../constants';
+import { createInMemoryStorage } from '../../utilities/persistence';
 
 // default values
 const DEFAULT_HANDLE_HEIGHT = 24;
 const DEFAULT_OVER_DRAG_RESISTANCE_FACTOR = 2.5;
 const DEFAULT_ENABLE_CONTENT_PANNING_GESTURE = true;
 const DEFAULT_ENABLE_HANDLE_PANNING_GESTURE = true;
+const DEFAULT_ENABLE_AXIS_LOCKING = false;
+const DEFAULT_AXIS_LOCKING_SLOP = 10;
 const DEFAULT_ENABLE_OVER_DRAG = true;
 const DEFAULT_ENABLE_PAN_DOWN_TO_CLOSE = false;
 const DEFAULT_ANIMATE_ON_MOUNT = true;
 const DEFAULT_DYNAMIC_SIZING = true;
+const DEFAULT_EDGE = SHEET_EDGE.bottom;
+
+// snapping
+const DEFAULT_SNAP_STRATEGY = 'projected' as const;
+const DEFAULT_SNAP_DECELERATION = 0.995;
+const DEFAULT_FLICK_VELOCITY_THRESHOLD = 500;
+const DEFAULT_SNAP_THRESHOLD_DISTANCE = 50;
 
 // keyboard
 const DEFAULT_KEYBOARD_BEHAVIOR = KEYBOARD_BEHAVIOR.interactive;
 const DEFAULT_KEYBOARD_BLUR_BEHAVIOR = KEYBOARD_BLUR_BEHAVIOR.none;
 const DEFAULT_KEYBOARD_INPUT_MODE = KEYBOARD_INPUT_MODE.adjustPan;
 const DEFAULT_ENABLE_BLUR_KEYBOARD_ON_GESTURE = false;
+const DEFAULT_KEYBOARD_SCROLL_OFFSET = 0;
+/**
+ * Idle time after the last frame accurate keyboard height update,
+ * before considering the keyboard settled.
+ */
+const KEYBOARD_SETTLE_DELAY = 100;
+
+// footer
+const DEFAULT_FOOTER_BEHAVIOR = FOOTER_BEHAVIOR.pinned;
+const DEFAULT_ENABLE_FOOTER_HIDE_ON_SCROLL = false;
+
+// persistence
+const DEFAULT_PERSISTENCE_STORAGE = createInMemoryStorage();
+/**
+ * Idle time after the scrollable content offset settles, before
+ * persisting it, to skip the consecutive drags and momentum scrolls.
+ */
+const PERSIST_SCROLL_OFFSET_DELAY = 300;
 
 // initial values
 const INITIAL_VALUE = Number.NEGATIVE_INFINITY;
 const INITIAL_SNAP_POINT = -999;
 const INITIAL_CONTAINER_HEIGHT = -999;
+const INITIAL_CONTAINER_WIDTH = -999;
 const INITIAL_CONTAINER_OFFSET = {
   top: 0,
   bottom: 0,
@@ -38,24 +69,54 @@ const INITIAL_POSITION = SCREEN_HEIGHT;
 const DEFAULT_ACCESSIBLE = true;
 const DEFAULT_ACCESSIBILITY_LABEL = 'Bottom Sheet';
 const DEFAULT_ACCESSIBILITY_ROLE = 'adjustable';
+const DEFAULT_ACCESSIBILITY_ANNOUNCEMENT = (
+  index: number,
+  snapPointsCount: number
+) => {
+  if (index === -1) {
+    return 'Bottom Sheet closed';
+  }
+
+  if (index === snapPointsCount - 1) {
+    return 'Bottom Sheet expanded';
+  }
+
+  return `Bottom Sheet at snap point ${index + 1} of ${snapPointsCount}`;
+};
 
 export {
   DEFAULT_HANDLE_HEIGHT,
   DEFAULT_OVER_DRAG_RESISTANCE_FACTOR,
   DEFAULT_ENABLE_CONTENT_PANNING_GESTURE,
   DEFAULT_ENABLE_HANDLE_PANNING_GESTURE,
+  DEFAULT_ENABLE_AXIS_LOCKING,
+  DEFAULT_AXIS_LOCKING_SLOP,
   DEFAULT_ENABLE_OVER_DRAG,
   DEFAULT_ENABLE_PAN_DOWN_TO_CLOSE,
   DEFAULT_DYNAMIC_SIZING,
   DEFAULT_ANIMATE_ON_MOUNT,
+  DEFAULT_EDGE,
+  // snapping
+  DEFAULT_SNAP_STRATEGY,
+  DEFAULT_SNAP_DECELERATION,
+  DEFAULT_FLICK_VELOCITY_THRESHOLD,
+  DEFAULT_SNAP_THRESHOLD_DISTANCE,
   // keyboard
   DEFAULT_KEYBOARD_BEHAVIOR,
   DEFAULT_KEYBOARD_BLUR_BEHAVIOR,
   DEFAULT_KEYBOARD_INPUT_MODE,
   DEFAULT_ENABLE_BLUR_KEYBOARD_ON_GESTURE,
+  DEFAULT_KEYBOARD_SCROLL_OFFSET,
+  KEYBOARD_SETTLE_DELAY,
+  DEFAULT_FOOTER_BEHAVIOR,
+  DEFAULT_ENABLE_FOOTER_HIDE_ON_SCROLL,
+  // persistence
+  DEFAULT_PERSISTENCE_STORAGE,
+  PERSIST_SCROLL_OFFSET_DELAY,
   // layout
   INITIAL_POSITION,
   INITIAL_CONTAINER_HEIGHT,
+  INITIAL_CONTAINER_WIDTH,
   INITIAL_CONTAINER_OFFSET,
   INITIAL_HANDLE_HEIGHT,
   INITIAL_SNAP_POINT,
@@ -64,4 +125,5 @@ export {
   DEFAULT_ACCESSIBLE,
   DEFAULT_ACCESSIBILITY_LABEL,
   DEFAULT_ACCESSIBILITY_ROLE,
+  DEFAULT_ACCESSIBILITY_ANNOUNCEMENT,
 };
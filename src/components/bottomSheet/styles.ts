@@ -8,6 +8,27 @@ export const styles = StyleSheet.create({
     left: 0,
     right: 0,
   },
+  topEdgeContainer: {
+    flexDirection: 'column',
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+  },
+  leftEdgeContainer: {
+    flexDirection: 'row',
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    right: 0,
+  },
+  rightEdgeContainer: {
+    flexDirection: 'row-reverse',
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: 0,
+  },
   contentContainer: {
     overflow: 'visible',
   },
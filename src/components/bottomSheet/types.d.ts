@@ -10,19 +10,28 @@ import type {
 } from 'react-native-reanimated';
 import type {
   ANIMATION_SOURCE,
+  FOOTER_BEHAVIOR,
   KEYBOARD_BEHAVIOR,
   KEYBOARD_BLUR_BEHAVIOR,
   KEYBOARD_INPUT_MODE,
+  SHEET_EDGE,
   SNAP_POINT_TYPE,
 } from '../../constants';
 import type {
+  BottomSheetAnimatedValuesListener,
+  BottomSheetEventListener,
+  BottomSheetStorageAdapter,
   GestureEventsHandlersHookType,
+  KeyboardProviderHookType,
   NullableAccessibilityProps,
+  SnapPoint,
+  SnapStrategy,
 } from '../../types';
 import type { BottomSheetBackdropProps } from '../bottomSheetBackdrop';
 import type { BottomSheetBackgroundProps } from '../bottomSheetBackground';
 import type { BottomSheetFooterProps } from '../bottomSheetFooter';
 import type { BottomSheetHandleProps } from '../bottomSheetHandle';
+import type { BottomSheetHeaderProps } from '../bottomSheetHeaderContainer';
 
 export interface BottomSheetProps
   extends BottomSheetAnimationConfigs,
@@ -36,7 +45,7 @@ export interface BottomSheetProps
    */
   index?: number;
   /**
-   * Points for the bottom sheet to snap to. It accepts array of number, string or mix.
+   * Points for the bottom sheet to snap to. It accepts array of number, string, snap point config or mix.
    * String values should be a percentage.
    *
    * ⚠️ This prop is required unless you set `enableDynamicSizing` to `true`.
@@ -44,9 +53,22 @@ export interface BottomSheetProps
    * snapPoints={[200, 500]}
    * snapPoints={[200, '%50']}
    * snapPoints={['%100']}
-   * @type Array<string | number>
+   * snapPoints={[200, { value: '50%', id: 'half' }]}
+   * @see {SnapPointConfig}
+   * @type Array<SnapPoint>
    */
-  snapPoints?: Array<string | number> | SharedValue<Array<string | number>>;
+  snapPoints?: Array<SnapPoint> | SharedValue<Array<SnapPoint>>;
+  /**
+   * Defines how the sheet resolves the snap point to settle at, when a gesture ends.
+   * - `nearest`: snaps to the nearest point, ignoring the gesture velocity.
+   * - `projected`: snaps to the nearest point to the projected resting position, using a configurable deceleration.
+   * - `next-in-direction`: a flick always moves the sheet one snap point in its direction.
+   * - `threshold`: leaves the current snap point only after dragging a configurable distance.
+   * - `worklet`: a custom worklet, that returns the position to snap to.
+   * @type SnapStrategy
+   * @default projected
+   */
+  snapStrategy?: SnapStrategy;
   /**
    * Defines how violently sheet has to be stopped while over dragging.
    * @type number
@@ -59,6 +81,20 @@ export interface BottomSheetProps
    * @default false
    */
   detached?: boolean;
+  /**
+   * Defines the container edge the sheet is anchored to, and slides out from.
+   * - `bottom`: a regular bottom sheet.
+   * - `top`: a pull-down panel anchored to the top edge.
+   * - `left`: a side drawer anchored to the left edge.
+   * - `right`: a side drawer anchored to the right edge.
+   *
+   * Snap points are measured along the sheet axis, from the anchored edge.
+   *
+   * ⚠️ Keyboard handling and scrollables hand-off are only supported for the `bottom` edge.
+   * @type `bottom` | `top` | `left` | `right`
+   * @default bottom
+   */
+  edge?: keyof typeof SHEET_EDGE;
   /**
    * Enable content panning gesture interaction.
    * @type boolean
@@ -71,6 +107,33 @@ export interface BottomSheetProps
    * @default true
    */
   enableHandlePanningGesture?: boolean;
+  /**
+   * Enable locking the panning gestures to the sheet axis, the sheet
+   * takes over the gesture only if it moves mostly along its axis,
+   * otherwise it is left to the nested horizontal scrollables & pagers.
+   *
+   * It is disabled when any of the active or fail offsets is provided.
+   * @type boolean
+   * @default false
+   */
+  enableAxisLocking?: boolean;
+  /**
+   * The distance in pixels the touch moves, before deciding
+   * the gesture ownership with `enableAxisLocking`.
+   * @type number
+   * @default 10
+   */
+  axisLockingSlop?: number;
+  /**
+   * The `scrollableId` of the scrollable that interacts with the sheet,
+   * when multiple scrollables are mounted at the same time, like in tab views.
+   *
+   * When provided, scrollables with a `scrollableId` are activated by it
+   * instead of their `focusHook`.
+   * @type string
+   * @default undefined
+   */
+  activeScrollableId?: string;
   /**
    * Enable over drag for the sheet.
    * @type boolean
@@ -105,6 +168,30 @@ export interface BottomSheetProps
    * @default ReduceMotion.System
    */
   overrideReduceMotion?: ReduceMotion;
+  /**
+   * Builds the message announced by the screen reader when the sheet
+   * index changes, provide `null` to disable the announcements.
+   *
+   * ⚠️ Snap points `accessibilityLabel` take precedence over it.
+   * @type ((index: number, snapPointsCount: number) => string | undefined) | null
+   * @default announces the closed, expanded or current snap point state.
+   */
+  accessibilityAnnouncement?:
+    | ((index: number, snapPointsCount: number) => string | undefined)
+    | null;
+  /**
+   * Persists the last index and the scrollable content offset under
+   * this key, and restores them on mount instead of `index`.
+   * @type string
+   * @default undefined
+   */
+  persistenceKey?: string;
+  /**
+   * Storage used to persist the sheet state, when `persistenceKey` is provided.
+   * @type BottomSheetStorageAdapter
+   * @default in-memory storage.
+   */
+  persistenceStorage?: BottomSheetStorageAdapter;
   //#endregion
 
   //#region layout
@@ -115,6 +202,13 @@ export interface BottomSheetProps
    * @type number | SharedValue<number>;
    */
   containerHeight?: number | SharedValue<number>;
+  /**
+   * Container width helps to calculate the internal sheet layouts for
+   * `left` and `right` edges, if `containerWidth` not provided, the library
+   * internally will calculate it.
+   * @type number | SharedValue<number>;
+   */
+  containerWidth?: number | SharedValue<number>;
   /**
    * Container offset helps to accurately detect container offsets.
    * @type SharedValue<number>;
@@ -151,10 +245,17 @@ export interface BottomSheetProps
    * - `interactive`: offset the sheet by the size of the keyboard.
    * - `extend`: extend the sheet to its maximum snap point.
    * - `fillParent`: extend the sheet to fill parent.
-   * @type `interactive` | `extend` | `fillParent`
+   * - `snapToIndex`: snap the sheet to `keyboardSnapIndex`.
+   * @type `interactive` | `extend` | `fillParent` | `snapToIndex`
    * @default interactive
    */
   keyboardBehavior?: keyof typeof KEYBOARD_BEHAVIOR;
+  /**
+   * Snap point index to snap to when the keyboard shows,
+   * with the `snapToIndex` keyboard behavior.
+   * @default the highest snap point index
+   */
+  keyboardSnapIndex?: number;
   /**
    * Defines the keyboard blur behavior.
    * - `none`: do nothing.
@@ -166,6 +267,12 @@ export interface BottomSheetProps
    * @default false
    */
   enableBlurKeyboardOnGesture?: boolean;
+  /**
+   * Extra distance kept between the focused text input and the keyboard
+   * or the footer, when scrolling the input into view.
+   * @default 0
+   */
+  keyboardScrollOffset?: number;
   /**
    * Defines keyboard input mode for Android only.
    * @link {https://developer.android.com/guide/topics/manifest/activity-element#wsoft}
@@ -173,6 +280,13 @@ export interface BottomSheetProps
    * @default `adjustPan`
    */
   android_keyboardInputMode?: keyof typeof KEYBOARD_INPUT_MODE;
+  /**
+   * Custom hook to provide the keyboard state and height, the sheet follows
+   * the keyboard on every frame if the provider is frame accurate.
+   * @type KeyboardProviderHookType
+   * @default useKeyboardEventsProvider on native and useVisualViewportKeyboardProvider on web
+   */
+  keyboardProviderHook?: KeyboardProviderHookType;
 
   //#endregion
 
@@ -252,9 +366,14 @@ export interface BottomSheetProps
   /**
    * Callback when the sheet position changed to a provided point.
    *
-   * @type (index: number) => void;
+   * @type (index: number, position: number, type: SNAP_POINT_TYPE, id?: string) => void;
    */
-  onChange?: (index: number, position: number, type: SNAP_POINT_TYPE) => void;
+  onChange?: (
+    index: number,
+    position: number,
+    type: SNAP_POINT_TYPE,
+    id?: string
+  ) => void;
   /**
    * Callback when the sheet close.
    *
@@ -267,6 +386,14 @@ export interface BottomSheetProps
    * @type (fromIndex: number, toIndex: number) => void;
    */
   onAnimate?: (fromIndex: number, toIndex: number) => void;
+  /**
+   * Callback for the sheet lifecycle events, such as animations,
+   * gestures, sheet state and keyboard adjustments.
+   * @see {BottomSheetEvent}
+   *
+   * @type (event: BottomSheetEvent) => void;
+   */
+  onEvent?: BottomSheetEventListener;
   //#endregion
 
   //#region components
@@ -295,6 +422,30 @@ export interface BottomSheetProps
    * @type React.FC\<BottomSheetFooterProps\>
    */
   footerComponent?: React.FC<BottomSheetFooterProps>;
+  /**
+   * Defines the footer positioning behavior, on the bottom edge.
+   * @enum
+   * - `pinned`: pin the footer to the visible bottom of the sheet.
+   * - `followContent`: attach the footer to the end of the content,
+   * and pin it once the content overflows the sheet.
+   * @type `pinned` | `followContent`
+   * @default pinned
+   */
+  footerBehavior?: keyof typeof FOOTER_BEHAVIOR;
+  /**
+   * Enable hiding the footer while the scrollable scrolls down,
+   * and showing it back when it scrolls up.
+   * @default false
+   */
+  enableFooterHideOnScroll?: boolean;
+  /**
+   * Component to be placed under the handle, pinned while the content scrolls.
+   * Its measured height is included in the sheet layout, and it drags the
+   * sheet the same as the handle.
+   * @see {BottomSheetHeaderProps}
+   * @type React.FC\<BottomSheetHeaderProps\>
+   */
+  headerComponent?: React.FC<BottomSheetHeaderProps>;
   /**
    * A scrollable node or normal view.
    * @type React.ReactNode
@@ -308,6 +459,16 @@ export interface BottomSheetProps
    * @type boolean
    */
   $modal?: boolean;
+  /**
+   * The modal data, to be persisted with the sheet state.
+   * @type unknown
+   */
+  $persistedData?: unknown;
+  /**
+   * Callback when the sheet animated values are mounted or unmounted.
+   * @type BottomSheetAnimatedValuesListener
+   */
+  $onAnimatedValuesChange?: BottomSheetAnimatedValuesListener;
   //#endregion
 }
 
@@ -325,7 +486,8 @@ export type AnimateToPositionType = (
   position: number,
   source: ANIMATION_SOURCE,
   velocity?: number,
-  configs?: WithTimingConfig | WithSpringConfig
+  configs?: WithTimingConfig | WithSpringConfig,
+  requestId?: number
 ) => void;
 
 export type BottomSheetGestureProps = {
@@ -15,7 +15,7 @@ import Animated, {
   runOnJS,
   Extrapolation,
 } from 'react-native-reanimated';
-import { useBottomSheet } from '../../hooks';
+import { useBottomSheet, useBottomSheetInternal } from '../../hooks';
 import {
   DEFAULT_ACCESSIBILITY_HINT,
   DEFAULT_ACCESSIBILITY_LABEL,
@@ -47,6 +47,8 @@ const BottomSheetBackdropComponent = ({
 }: BottomSheetDefaultBackdropProps) => {
   //#region hooks
   const { snapToIndex, close } = useBottomSheet();
+  const animatedSnapPointConfigs =
+    useBottomSheetInternal(true)?.animatedSnapPointConfigs;
   const isMounted = useRef(false);
   //#endregion
 
@@ -96,17 +98,46 @@ const BottomSheetBackdropComponent = ({
   //#endregion
 
   //#region styles
-  const containerAnimatedStyle = useAnimatedStyle(
-    () => ({
+  const containerAnimatedStyle = useAnimatedStyle(() => {
+    const snapPointConfigs = animatedSnapPointConfigs?.value ?? [];
+    const inputRange = [-1, disappearsOnIndex, appearsOnIndex];
+    const outputRange = [
+      0,
+      0,
+      snapPointConfigs[appearsOnIndex]?.backdropOpacity ?? opacity,
+    ];
+
+    /**
+     * snap points above the appearing one, keep the previous
+     * opacity unless they provide their own backdrop opacity.
+     */
+    for (
+      let index = appearsOnIndex + 1;
+      index < snapPointConfigs.length;
+      index++
+    ) {
+      inputRange.push(index);
+      outputRange.push(
+        snapPointConfigs[index]?.backdropOpacity ??
+          outputRange[outputRange.length - 1]
+      );
+    }
+
+    return {
       opacity: interpolate(
         animatedIndex.value,
-        [-1, disappearsOnIndex, appearsOnIndex],
-        [0, 0, opacity],
+        inputRange,
+        outputRange,
         Extrapolation.CLAMP
       ),
-    }),
-    [animatedIndex, appearsOnIndex, disappearsOnIndex, opacity]
-  );
+    };
+  }, [
+    animatedIndex,
+    animatedSnapPointConfigs,
+    appearsOnIndex,
+    disappearsOnIndex,
+    opacity,
+  ]);
   const containerStyle = useMemo(
     () => [styles.container, style, containerAnimatedStyle],
     [style, containerAnimatedStyle]
@@ -13,6 +13,7 @@ import type { BottomSheetContainerProps } from './types';
 
 function BottomSheetContainerComponent({
   containerHeight,
+  containerWidth,
   containerOffset,
   topInset = 0,
   bottomInset = 0,
@@ -41,10 +42,13 @@ function BottomSheetContainerComponent({
   const handleContainerLayout = useCallback(
     function handleContainerLayout({
       nativeEvent: {
-        layout: { height },
+        layout: { height, width },
       },
     }: LayoutChangeEvent) {
       containerHeight.value = height;
+      if (containerWidth) {
+        containerWidth.value = width;
+      }
 
       containerRef.current?.measure(
         (_x, _y, _width, _height, _pageX, pageY) => {
@@ -70,10 +74,11 @@ function BottomSheetContainerComponent({
         category: 'layout',
         params: {
           height,
+          width,
         },
       });
     },
-    [containerHeight, containerOffset]
+    [containerHeight, containerWidth, containerOffset]
   );
   //#endregion
 
@@ -8,6 +8,7 @@ export interface BottomSheetContainerProps
     Pick<BottomSheetProps, 'topInset' | 'bottomInset' | 'detached'>
   > {
   containerHeight: SharedValue<number>;
+  containerWidth?: SharedValue<number>;
   containerOffset: SharedValue<Required<Insets>>;
   shouldCalculateHeight?: boolean;
   style?: StyleProp<ViewStyle>;
@@ -1,10 +1,11 @@
-import React, { useMemo, memo } from 'react';
+import React, { useEffect, useMemo, memo } from 'react';
 import { Gesture, GestureDetector } from 'react-native-gesture-handler';
 import Animated from 'react-native-reanimated';
 import { BottomSheetDraggableContext } from '../../contexts/gesture';
 import {
   useBottomSheetGestureHandlers,
   useBottomSheetInternal,
+  useGestureAxisLocking,
 } from '../../hooks';
 import type { BottomSheetDraggableViewProps } from './types';
 
@@ -25,7 +26,11 @@ const BottomSheetDraggableViewComponent = ({
     failOffsetX,
     failOffsetY,
   } = useBottomSheetInternal();
-  const { contentPanGestureHandler } = useBottomSheetGestureHandlers();
+  const applyAxisLocking = useGestureAxisLocking();
+  const { contentPanGestureHandler, nestedGestures, parentGestureHandlers } =
+    useBottomSheetGestureHandlers();
+  const registerParentNestedGesture =
+    parentGestureHandlers?.registerNestedGesture;
   //#endregion
 
   //#region variables
@@ -68,6 +73,10 @@ const BottomSheetDraggableViewComponent = ({
       gesture = gesture.requireExternalGestureToFail(waitFor);
     }
 
+    if (nestedGestures.length > 0) {
+      gesture = gesture.requireExternalGestureToFail(...nestedGestures);
+    }
+
     if (simultaneousHandlers) {
       gesture = gesture.simultaneousWithExternalGesture(
         simultaneousHandlers as never
@@ -90,8 +99,9 @@ const BottomSheetDraggableViewComponent = ({
       gesture = gesture.failOffsetY(failOffsetY);
     }
 
-    return gesture;
+    return applyAxisLocking(gesture);
   }, [
+    applyAxisLocking,
     activeOffsetX,
     activeOffsetY,
     enableContentPanningGesture,
@@ -99,6 +109,7 @@ const BottomSheetDraggableViewComponent = ({
     failOffsetY,
     simultaneousHandlers,
     waitFor,
+    nestedGestures,
     contentPanGestureHandler.handleOnChange,
     contentPanGestureHandler.handleOnEnd,
     contentPanGestureHandler.handleOnFinalize,
@@ -106,6 +117,19 @@ const BottomSheetDraggableViewComponent = ({
   ]);
   //#endregion
 
+  //#region effects
+  /**
+   * register the gesture with the parent sheet, if nested.
+   */
+  useEffect(() => {
+    if (!registerParentNestedGesture) {
+      return;
+    }
+
+    return registerParentNestedGesture(draggableGesture);
+  }, [registerParentNestedGesture, draggableGesture]);
+  //#endregion
+
   return (
     <GestureDetector gesture={draggableGesture}>
       <BottomSheetDraggableContext.Provider value={draggableGesture}>
@@ -2,7 +2,10 @@ import React, { memo, useCallback, useMemo } from 'react';
 import type { LayoutChangeEvent } from 'react-native';
 import Animated, { useAnimatedStyle } from 'react-native-reanimated';
 import { KEYBOARD_STATE } from '../../constants';
-import { useBottomSheetInternal } from '../../hooks';
+import {
+  useBottomSheetInternal,
+  useFooterHeightContribution,
+} from '../../hooks';
 import { styles } from './styles';
 import type { BottomSheetDefaultFooterProps } from './types';
 
@@ -13,8 +16,8 @@ function BottomSheetFooterComponent({
   children,
 }: BottomSheetDefaultFooterProps) {
   //#region hooks
-  const { animatedFooterHeight, animatedKeyboardState } =
-    useBottomSheetInternal();
+  const { animatedKeyboardState } = useBottomSheetInternal();
+  const setFooterHeight = useFooterHeightContribution();
   //#endregion
 
   //#region styles
@@ -49,9 +52,9 @@ function BottomSheetFooterComponent({
         layout: { height },
       },
     }: LayoutChangeEvent) => {
-      animatedFooterHeight.value = height;
+      setFooterHeight(height);
     },
-    [animatedFooterHeight]
+    [setFooterHeight]
   );
   //#endregion
 
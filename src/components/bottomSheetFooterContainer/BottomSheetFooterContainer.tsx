@@ -1,51 +1,127 @@
 import React, { memo } from 'react';
-import { useDerivedValue } from 'react-native-reanimated';
-import { KEYBOARD_STATE } from '../../constants';
-import { useBottomSheetInternal } from '../../hooks';
+import {
+  useAnimatedReaction,
+  useDerivedValue,
+  useSharedValue,
+  withTiming,
+} from 'react-native-reanimated';
+import {
+  ANIMATION_DURATION,
+  ANIMATION_EASING,
+  DRAG_DIRECTION,
+  FOOTER_BEHAVIOR,
+  SCROLLABLE_STATE,
+  SHEET_EDGE,
+} from '../../constants';
+import {
+  useAnimatedVisibleContentBottom,
+  useBottomSheetInternal,
+} from '../../hooks';
+import {
+  DEFAULT_ENABLE_FOOTER_HIDE_ON_SCROLL,
+  DEFAULT_FOOTER_BEHAVIOR,
+  INITIAL_CONTAINER_HEIGHT,
+} from '../bottomSheet/constants';
 import type { BottomSheetFooterContainerProps } from './types';
 
 const BottomSheetFooterContainerComponent = ({
   footerComponent: FooterComponent,
+  footerBehavior = DEFAULT_FOOTER_BEHAVIOR,
+  enableFooterHideOnScroll = DEFAULT_ENABLE_FOOTER_HIDE_ON_SCROLL,
 }: BottomSheetFooterContainerProps) => {
   //#region hooks
   const {
-    animatedContainerHeight,
-    animatedHandleHeight,
+    edge,
     animatedFooterHeight,
-    animatedPosition,
-    animatedKeyboardState,
-    animatedKeyboardHeightInContainer,
+    animatedContentHeight,
+    animatedScrollableState,
+    animatedDragDirection,
   } = useBottomSheetInternal();
+  const animatedVisibleContentBottom = useAnimatedVisibleContentBottom();
   //#endregion
 
   //#region variables
+  /**
+   * the footer hiding progress, `0` when shown and `1` when hidden.
+   */
+  const animatedFooterHideProgress = useSharedValue(0);
   const animatedFooterPosition = useDerivedValue(() => {
-    const keyboardHeight = animatedKeyboardHeightInContainer.value;
-    let footerTranslateY = Math.max(
-      0,
-      animatedContainerHeight.value - animatedPosition.value
-    );
+    const footerTranslateY =
+      animatedVisibleContentBottom.value - animatedFooterHeight.value;
 
-    if (animatedKeyboardState.value === KEYBOARD_STATE.SHOWN) {
-      footerTranslateY = footerTranslateY - keyboardHeight;
+    /**
+     * on the top & horizontal edges, the footer sticks to the content bottom.
+     */
+    if (edge !== SHEET_EDGE.bottom) {
+      return footerTranslateY;
     }
 
-    footerTranslateY =
-      footerTranslateY -
-      animatedFooterHeight.value -
-      animatedHandleHeight.value;
+    /**
+     * attach the footer to the end of the content, until
+     * the content overflows the sheet.
+     */
+    const contentTranslateY =
+      footerBehavior === FOOTER_BEHAVIOR.followContent &&
+      animatedContentHeight.value !== INITIAL_CONTAINER_HEIGHT
+        ? Math.min(footerTranslateY, animatedContentHeight.value)
+        : footerTranslateY;
 
-    return footerTranslateY;
+    /**
+     * slide the footer out by its height, while hidden on scroll.
+     */
+    return (
+      contentTranslateY +
+      animatedFooterHideProgress.value * animatedFooterHeight.value
+    );
   }, [
-    animatedKeyboardHeightInContainer,
-    animatedContainerHeight,
-    animatedPosition,
-    animatedKeyboardState,
+    edge,
+    footerBehavior,
+    animatedVisibleContentBottom,
+    animatedContentHeight,
+    animatedFooterHideProgress,
     animatedFooterHeight,
-    animatedHandleHeight,
   ]);
   //#endregion
 
+  //#region effects
+  /**
+   * hide the footer while the scrollable scrolls down, and show it back
+   * when it scrolls up or the scrollable gets locked.
+   */
+  useAnimatedReaction(
+    () => {
+      if (!enableFooterHideOnScroll) {
+        return false;
+      }
+
+      if (animatedScrollableState.value !== SCROLLABLE_STATE.UNLOCKED) {
+        return false;
+      }
+
+      switch (animatedDragDirection.value) {
+        // the content offset increases, when dragging towards opening.
+        case DRAG_DIRECTION.OPENING:
+          return true;
+        case DRAG_DIRECTION.CLOSING:
+          return false;
+        default:
+          return undefined;
+      }
+    },
+    (isHidden, previous) => {
+      if (isHidden === undefined || isHidden === previous) {
+        return;
+      }
+
+      animatedFooterHideProgress.value = withTiming(isHidden ? 1 : 0, {
+        duration: ANIMATION_DURATION,
+        easing: ANIMATION_EASING,
+      });
+    },
+    [enableFooterHideOnScroll, animatedScrollableState, animatedDragDirection]
+  );
+  //#endregion
+
   return <FooterComponent animatedFooterPosition={animatedFooterPosition} />;
 };
 
@@ -1,4 +1,5 @@
 import type { BottomSheetProps } from '../bottomSheet';
 
 export interface BottomSheetFooterContainerProps
-  extends Required<Pick<BottomSheetProps, 'footerComponent'>> {}
+  extends Required<Pick<BottomSheetProps, 'footerComponent'>>,
+    Pick<BottomSheetProps, 'footerBehavior' | 'enableFooterHideOnScroll'> {}
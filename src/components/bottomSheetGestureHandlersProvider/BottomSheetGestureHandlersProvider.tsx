@@ -1,4 +1,5 @@
-import React, { useMemo } from 'react';
+import React, { useCallback, useContext, useMemo, useState } from 'react';
+import type { GestureType } from 'react-native-gesture-handler';
 import { useSharedValue } from 'react-native-reanimated';
 import { GESTURE_SOURCE } from '../../constants';
 import { BottomSheetGestureHandlersContext } from '../../contexts';
@@ -18,9 +19,15 @@ const BottomSheetGestureHandlersProvider = ({
   const animatedGestureSource = useSharedValue<GESTURE_SOURCE>(
     GESTURE_SOURCE.UNDETERMINED
   );
+  const [nestedGestures, setNestedGestures] = useState<GestureType[]>([]);
   //#endregion
 
   //#region hooks
+  /**
+   * the parent sheet gesture handlers, when this sheet is
+   * rendered within another sheet content.
+   */
+  const parentGestureHandlers = useContext(BottomSheetGestureHandlersContext);
   const { animatedContentGestureState, animatedHandleGestureState } =
     useBottomSheetInternal();
   const { handleOnStart, handleOnChange, handleOnEnd, handleOnFinalize } =
@@ -35,7 +42,8 @@ const BottomSheetGestureHandlersProvider = ({
     handleOnStart,
     handleOnChange,
     handleOnEnd,
-    handleOnFinalize
+    handleOnFinalize,
+    parentGestureHandlers?.contentPanGestureHandler
   );
 
   const handlePanGestureHandler = useGestureHandler(
@@ -45,18 +53,40 @@ const BottomSheetGestureHandlersProvider = ({
     handleOnStart,
     handleOnChange,
     handleOnEnd,
-    handleOnFinalize
+    handleOnFinalize,
+    parentGestureHandlers?.contentPanGestureHandler
   );
   //#endregion
 
+  //#region callbacks
+  const registerNestedGesture = useCallback(function registerNestedGesture(
+    gesture: GestureType
+  ) {
+    setNestedGestures(state => [...state, gesture]);
+    return () => {
+      setNestedGestures(state => state.filter(item => item !== gesture));
+    };
+  }, []);
+  //#endregion
+
   //#region context
   const contextValue = useMemo(
     () => ({
       contentPanGestureHandler,
       handlePanGestureHandler,
       animatedGestureSource,
+      nestedGestures,
+      registerNestedGesture,
+      parentGestureHandlers,
     }),
-    [contentPanGestureHandler, handlePanGestureHandler, animatedGestureSource]
+    [
+      contentPanGestureHandler,
+      handlePanGestureHandler,
+      animatedGestureSource,
+      nestedGestures,
+      registerNestedGesture,
+      parentGestureHandlers,
+    ]
   );
   //#endregion
   return (
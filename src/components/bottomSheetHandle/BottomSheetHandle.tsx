@@ -1,5 +1,7 @@
 import React, { memo, useMemo } from 'react';
 import Animated from 'react-native-reanimated';
+import { SHEET_EDGE } from '../../constants';
+import { useBottomSheetInternal } from '../../hooks';
 import {
   DEFAULT_ACCESSIBILITY_HINT,
   DEFAULT_ACCESSIBILITY_LABEL,
@@ -18,17 +20,25 @@ const BottomSheetHandleComponent = ({
   accessibilityLabel = DEFAULT_ACCESSIBILITY_LABEL,
   accessibilityHint = DEFAULT_ACCESSIBILITY_HINT,
 }: BottomSheetDefaultHandleProps) => {
+  // hooks
+  const edge = useBottomSheetInternal(true)?.edge;
+  const isHorizontalEdge =
+    edge === SHEET_EDGE.left || edge === SHEET_EDGE.right;
+
   // styles
   const containerStyle = useMemo(
-    () => [styles.container, ...[Array.isArray(style) ? style : [style]]],
-    [style]
+    () => [
+      isHorizontalEdge ? styles.horizontalEdgeContainer : styles.container,
+      ...[Array.isArray(style) ? style : [style]],
+    ],
+    [style, isHorizontalEdge]
   );
   const indicatorStyle = useMemo(
     () => [
-      styles.indicator,
+      isHorizontalEdge ? styles.horizontalEdgeIndicator : styles.indicator,
       ...[Array.isArray(_indicatorStyle) ? _indicatorStyle : [_indicatorStyle]],
     ],
-    [_indicatorStyle]
+    [_indicatorStyle, isHorizontalEdge]
   );
 
   // render
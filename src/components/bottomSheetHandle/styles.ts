@@ -1,5 +1,5 @@
 import { StyleSheet } from 'react-native';
-import { WINDOW_WIDTH } from '../../constants';
+import { WINDOW_HEIGHT, WINDOW_WIDTH } from '../../constants';
 
 export const styles = StyleSheet.create({
   container: {
@@ -13,4 +13,17 @@ export const styles = StyleSheet.create({
     borderRadius: 4,
     backgroundColor: 'rgba(0, 0, 0, 0.75)',
   },
+
+  horizontalEdgeContainer: {
+    padding: 10,
+    justifyContent: 'center',
+  },
+
+  horizontalEdgeIndicator: {
+    alignSelf: 'center',
+    width: 4,
+    height: (4 * WINDOW_HEIGHT) / 100,
+    borderRadius: 4,
+    backgroundColor: 'rgba(0, 0, 0, 0.75)',
+  },
 });
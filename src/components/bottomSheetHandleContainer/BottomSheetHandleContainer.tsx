@@ -1,14 +1,32 @@
-import React, { memo, useCallback, useMemo } from 'react';
-import type { LayoutChangeEvent } from 'react-native';
-import { Gesture, GestureDetector } from 'react-native-gesture-handler';
-import Animated from 'react-native-reanimated';
+import React, { memo, useCallback, useMemo, useRef, useState } from 'react';
+import type {
+  AccessibilityActionEvent,
+  AccessibilityValue,
+  LayoutChangeEvent,
+} from 'react-native';
+import { GestureDetector } from 'react-native-gesture-handler';
+import Animated, {
+  runOnJS,
+  useAnimatedReaction,
+} from 'react-native-reanimated';
+import { SHEET_EDGE } from '../../constants';
 import {
-  useBottomSheetGestureHandlers,
+  useBottomSheet,
   useBottomSheetInternal,
+  useHandlePanGesture,
+  useKeyboardNavigationEvents,
 } from '../../hooks';
 import { print } from '../../utilities';
-import { DEFAULT_ENABLE_HANDLE_PANNING_GESTURE } from '../bottomSheet/constants';
+import {
+  DEFAULT_ENABLE_HANDLE_PANNING_GESTURE,
+  DEFAULT_ENABLE_PAN_DOWN_TO_CLOSE,
+} from '../bottomSheet/constants';
 import BottomSheetHandle from '../bottomSheetHandle';
+import {
+  ACCESSIBILITY_ADJUST_ACTIONS,
+  ACCESSIBILITY_CLOSE_ACTIONS,
+  KEYBOARD_NAVIGATION_ACTIONS,
+} from './constants';
 import { styles } from './styles';
 import type { BottomSheetHandleContainerProps } from './types';
 
@@ -17,102 +35,69 @@ function BottomSheetHandleContainerComponent({
   animatedPosition,
   simultaneousHandlers: _internalSimultaneousHandlers,
   enableHandlePanningGesture = DEFAULT_ENABLE_HANDLE_PANNING_GESTURE,
+  enablePanDownToClose = DEFAULT_ENABLE_PAN_DOWN_TO_CLOSE,
   handleHeight,
   handleComponent: _providedHandleComponent,
   handleStyle: _providedHandleStyle,
   handleIndicatorStyle: _providedIndicatorStyle,
 }: BottomSheetHandleContainerProps) {
-  //#region hooks
-  const {
-    activeOffsetX,
-    activeOffsetY,
-    failOffsetX,
-    failOffsetY,
-    waitFor,
-    simultaneousHandlers: _providedSimultaneousHandlers,
-  } = useBottomSheetInternal();
-  const { handlePanGestureHandler } = useBottomSheetGestureHandlers();
+  //#region state
+  const [accessibilityState, setAccessibilityState] = useState({
+    index: -1,
+    snapPointsCount: 0,
+    label: undefined as string | undefined,
+  });
   //#endregion
 
-  //#region variables
-  const simultaneousHandlers = useMemo<unknown[]>(() => {
-    const refs = [];
-
-    if (_internalSimultaneousHandlers) {
-      refs.push(_internalSimultaneousHandlers);
-    }
-
-    if (_providedSimultaneousHandlers) {
-      if (Array.isArray(_providedSimultaneousHandlers)) {
-        refs.push(..._providedSimultaneousHandlers);
-      } else {
-        refs.push(_providedSimultaneousHandlers);
-      }
-    }
-
-    return refs;
-  }, [_providedSimultaneousHandlers, _internalSimultaneousHandlers]);
-
-  const panGesture = useMemo(() => {
-    let gesture = Gesture.Pan()
-      .enabled(enableHandlePanningGesture)
-      .shouldCancelWhenOutside(false)
-      .runOnJS(false)
-      .onStart(handlePanGestureHandler.handleOnStart)
-      .onChange(handlePanGestureHandler.handleOnChange)
-      .onEnd(handlePanGestureHandler.handleOnEnd)
-      .onFinalize(handlePanGestureHandler.handleOnFinalize);
-
-    if (waitFor) {
-      gesture = gesture.requireExternalGestureToFail(waitFor);
-    }
-
-    if (simultaneousHandlers) {
-      gesture = gesture.simultaneousWithExternalGesture(
-        simultaneousHandlers as never
-      );
-    }
-
-    if (activeOffsetX) {
-      gesture = gesture.activeOffsetX(activeOffsetX);
-    }
-
-    if (activeOffsetY) {
-      gesture = gesture.activeOffsetY(activeOffsetY);
-    }
-
-    if (failOffsetX) {
-      gesture = gesture.failOffsetX(failOffsetX);
-    }
-
-    if (failOffsetY) {
-      gesture = gesture.failOffsetY(failOffsetY);
-    }
+  //#region refs
+  const containerRef = useRef<Animated.View>(null);
+  //#endregion
 
-    return gesture;
-  }, [
-    activeOffsetX,
-    activeOffsetY,
+  //#region hooks
+  const { snapToIndex, close } = useBottomSheet();
+  const { animatedSnapPoints, animatedSnapPointConfigs, edge } =
+    useBottomSheetInternal();
+  const panGesture = useHandlePanGesture(
     enableHandlePanningGesture,
-    failOffsetX,
-    failOffsetY,
-    simultaneousHandlers,
-    waitFor,
-    handlePanGestureHandler.handleOnChange,
-    handlePanGestureHandler.handleOnEnd,
-    handlePanGestureHandler.handleOnFinalize,
-    handlePanGestureHandler.handleOnStart,
-  ]);
+    _internalSimultaneousHandlers
+  );
+  //#endregion
+
+  //#region variables
+  const accessibilityActions = useMemo(
+    () =>
+      enablePanDownToClose
+        ? [...ACCESSIBILITY_ADJUST_ACTIONS, ...ACCESSIBILITY_CLOSE_ACTIONS]
+        : ACCESSIBILITY_ADJUST_ACTIONS,
+    [enablePanDownToClose]
+  );
+  const accessibilityValue = useMemo<AccessibilityValue | undefined>(
+    () =>
+      accessibilityState.index === -1
+        ? undefined
+        : {
+            min: 0,
+            max: accessibilityState.snapPointsCount - 1,
+            now: accessibilityState.index,
+            text: accessibilityState.label,
+          },
+    [accessibilityState]
+  );
   //#endregion
 
   //#region callbacks
   const handleContainerLayout = useCallback(
     function handleContainerLayout({
       nativeEvent: {
-        layout: { height },
+        layout: { height, width },
       },
     }: LayoutChangeEvent) {
-      handleHeight.value = height;
+      /**
+       * on horizontal edges, the handle size is measured
+       * on the sheet axis.
+       */
+      handleHeight.value =
+        edge === SHEET_EDGE.left || edge === SHEET_EDGE.right ? width : height;
 
       if (__DEV__) {
         print({
@@ -121,11 +106,107 @@ function BottomSheetHandleContainerComponent({
           category: 'layout',
           params: {
             height,
+            width,
           },
         });
       }
     },
-    [handleHeight]
+    [edge, handleHeight]
+  );
+  /**
+   * Moves the sheet between its snap points, it returns whether
+   * the action was performed.
+   */
+  const handleAdjustAction = useCallback(
+    function handleAdjustAction(actionName: string) {
+      const { index, snapPointsCount } = accessibilityState;
+
+      switch (actionName) {
+        case 'increment':
+          if (index < snapPointsCount - 1) {
+            snapToIndex(index + 1);
+            return true;
+          }
+          return false;
+        case 'decrement':
+          if (index > 0) {
+            snapToIndex(index - 1);
+            return true;
+          }
+          if (index === 0 && enablePanDownToClose) {
+            close();
+            return true;
+          }
+          return false;
+        case 'first':
+          if (index !== 0 && snapPointsCount > 0) {
+            snapToIndex(0);
+            return true;
+          }
+          return false;
+        case 'last':
+          if (index !== snapPointsCount - 1 && snapPointsCount > 0) {
+            snapToIndex(snapPointsCount - 1);
+            return true;
+          }
+          return false;
+        case 'escape':
+        case 'magicTap':
+          if (enablePanDownToClose) {
+            close();
+            return true;
+          }
+          return false;
+        default:
+          return false;
+      }
+    },
+    [accessibilityState, enablePanDownToClose, snapToIndex, close]
+  );
+  const handleAccessibilityAction = useCallback(
+    function handleAccessibilityAction({
+      nativeEvent: { actionName },
+    }: AccessibilityActionEvent) {
+      handleAdjustAction(actionName);
+    },
+    [handleAdjustAction]
+  );
+  const handleKeyboardNavigation = useCallback(
+    function handleKeyboardNavigation(key: string) {
+      const actionName = KEYBOARD_NAVIGATION_ACTIONS[edge][key];
+      return actionName ? handleAdjustAction(actionName) : false;
+    },
+    [edge, handleAdjustAction]
+  );
+  //#endregion
+
+  //#region effects
+  useKeyboardNavigationEvents(containerRef, handleKeyboardNavigation);
+
+  /**
+   * keep the accessibility value in sync with the settled sheet index.
+   */
+  useAnimatedReaction(
+    () => {
+      const index = Math.round(animatedIndex.value);
+      return {
+        index,
+        snapPointsCount: animatedSnapPoints.value.length,
+        label: animatedSnapPointConfigs.value[index]?.accessibilityLabel,
+      };
+    },
+    (result, previous) => {
+      if (
+        result.index === previous?.index &&
+        result.snapPointsCount === previous?.snapPointsCount &&
+        result.label === previous?.label
+      ) {
+        return;
+      }
+
+      runOnJS(setAccessibilityState)(result);
+    },
+    [animatedIndex, animatedSnapPoints, animatedSnapPointConfigs]
   );
   //#endregion
 
@@ -137,12 +218,16 @@ function BottomSheetHandleContainerComponent({
   return HandleComponent !== null ? (
     <GestureDetector gesture={panGesture}>
       <Animated.View
+        ref={containerRef}
         key="BottomSheetHandleContainer"
-        accessible={false}
-        importantForAccessibility={"no"}
+        accessible={true}
+        focusable={true}
         accessibilityRole="adjustable"
         accessibilityLabel="Bottom Sheet handle"
         accessibilityHint="Drag up or down to extend or minimize the Bottom Sheet"
+        accessibilityActions={accessibilityActions}
+        accessibilityValue={accessibilityValue}
+        onAccessibilityAction={handleAccessibilityAction}
         style={styles.container}
         onLayout={handleContainerLayout}
         style={styles.container}
@@ -0,0 +1,49 @@
+import { SHEET_EDGE } from '../../constants';
+
+const ACCESSIBILITY_ADJUST_ACTIONS = [
+  { name: 'increment', label: 'Expand' },
+  { name: 'decrement', label: 'Collapse' },
+];
+const ACCESSIBILITY_CLOSE_ACTIONS = [
+  { name: 'escape', label: 'Close' },
+  { name: 'magicTap', label: 'Close' },
+];
+
+/**
+ * Maps the web keyboard keys to the adjust actions, per sheet edge.
+ */
+const KEYBOARD_NAVIGATION_ACTIONS: Record<
+  (typeof SHEET_EDGE)[keyof typeof SHEET_EDGE],
+  Record<string, string | undefined>
+> = {
+  [SHEET_EDGE.bottom]: {
+    ArrowUp: 'increment',
+    ArrowDown: 'decrement',
+    Home: 'first',
+    End: 'last',
+  },
+  [SHEET_EDGE.top]: {
+    ArrowDown: 'increment',
+    ArrowUp: 'decrement',
+    Home: 'first',
+    End: 'last',
+  },
+  [SHEET_EDGE.left]: {
+    ArrowRight: 'increment',
+    ArrowLeft: 'decrement',
+    Home: 'first',
+    End: 'last',
+  },
+  [SHEET_EDGE.right]: {
+    ArrowLeft: 'increment',
+    ArrowRight: 'decrement',
+    Home: 'first',
+    End: 'last',
+  },
+};
+
+export {
+  ACCESSIBILITY_ADJUST_ACTIONS,
+  ACCESSIBILITY_CLOSE_ACTIONS,
+  KEYBOARD_NAVIGATION_ACTIONS,
+};
@@ -4,5 +4,7 @@ export const styles = StyleSheet.create({
   container: {
     // @ts-ignore
     cursor: 'grab',
+    // @ts-ignore
+    userSelect: 'none',
   },
 });
@@ -0,0 +1,88 @@
+import React, { memo, useCallback, useEffect } from 'react';
+import type { LayoutChangeEvent } from 'react-native';
+import { GestureDetector } from 'react-native-gesture-handler';
+import Animated from 'react-native-reanimated';
+import { SHEET_EDGE } from '../../constants';
+import { useBottomSheetInternal, useHandlePanGesture } from '../../hooks';
+import { print } from '../../utilities';
+import { DEFAULT_ENABLE_HANDLE_PANNING_GESTURE } from '../bottomSheet/constants';
+import { styles } from './styles';
+import type { BottomSheetHeaderContainerProps } from './types';
+
+function BottomSheetHeaderContainerComponent({
+  animatedIndex,
+  animatedPosition,
+  enableHandlePanningGesture = DEFAULT_ENABLE_HANDLE_PANNING_GESTURE,
+  headerComponent: HeaderComponent,
+}: BottomSheetHeaderContainerProps) {
+  //#region hooks
+  const { animatedHeaderHeight, animatedScrollableContentOffsetY, edge } =
+    useBottomSheetInternal();
+  /**
+   * the header drags the sheet the same as the handle does.
+   */
+  const panGesture = useHandlePanGesture(enableHandlePanningGesture);
+  //#endregion
+
+  //#region callbacks
+  const handleContainerLayout = useCallback(
+    function handleContainerLayout({
+      nativeEvent: {
+        layout: { height, width },
+      },
+    }: LayoutChangeEvent) {
+      /**
+       * on horizontal edges, the header size is measured
+       * on the sheet axis.
+       */
+      animatedHeaderHeight.value =
+        edge === SHEET_EDGE.left || edge === SHEET_EDGE.right ? width : height;
+
+      if (__DEV__) {
+        print({
+          component: BottomSheetHeaderContainer.displayName,
+          method: 'handleContainerLayout',
+          category: 'layout',
+          params: {
+            height,
+            width,
+          },
+        });
+      }
+    },
+    [edge, animatedHeaderHeight]
+  );
+  //#endregion
+
+  //#region effects
+  /**
+   * reset the header height on unmount, to release its space.
+   */
+  useEffect(() => {
+    return () => {
+      animatedHeaderHeight.value = 0;
+    };
+  }, [animatedHeaderHeight]);
+  //#endregion
+
+  return (
+    <GestureDetector gesture={panGesture}>
+      <Animated.View
+        key="BottomSheetHeaderContainer"
+        style={styles.container}
+        onLayout={handleContainerLayout}
+      >
+        <HeaderComponent
+          animatedIndex={animatedIndex}
+          animatedPosition={animatedPosition}
+          animatedScrollableContentOffsetY={animatedScrollableContentOffsetY}
+        />
+      </Animated.View>
+    </GestureDetector>
+  );
+}
+
+const BottomSheetHeaderContainer = memo(BottomSheetHeaderContainerComponent);
+BottomSheetHeaderContainer.displayName = 'BottomSheetHeaderContainer';
+
+export default BottomSheetHeaderContainer;
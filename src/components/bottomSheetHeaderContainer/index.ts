@@ -0,0 +1,2 @@
+export { default } from './BottomSheetHeaderContainer';
+export type { BottomSheetHeaderProps } from './types';
@@ -0,0 +1,17 @@
+import type { SharedValue } from 'react-native-reanimated';
+import type { BottomSheetVariables } from '../../types';
+import type { BottomSheetProps } from '../bottomSheet';
+
+export interface BottomSheetHeaderProps extends BottomSheetVariables {
+  /**
+   * Current registered scrollable content offset,
+   * to collapse or shrink the header while scrolling.
+   * @type SharedValue<number>
+   */
+  animatedScrollableContentOffsetY: SharedValue<number>;
+}
+
+export interface BottomSheetHeaderContainerProps
+  extends Required<Pick<BottomSheetProps, 'headerComponent'>>,
+    Pick<BottomSheetProps, 'enableHandlePanningGesture'>,
+    BottomSheetVariables {}
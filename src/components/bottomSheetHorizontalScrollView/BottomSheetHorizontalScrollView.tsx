@@ -0,0 +1,52 @@
+import React, { forwardRef, memo, useContext, useMemo } from 'react';
+import { ScrollView } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import { BottomSheetDraggableContext } from '../../contexts/gesture';
+import { useBottomSheetInternal } from '../../hooks';
+import type { BottomSheetHorizontalScrollViewProps } from './types';
+
+const BottomSheetHorizontalScrollViewComponent = forwardRef<
+  ScrollView,
+  BottomSheetHorizontalScrollViewProps
+>(({ directionalLockEnabled = true, children, ...rest }, ref) => {
+  //#region hooks
+  const draggableGesture = useContext(BottomSheetDraggableContext);
+  const { enableAxisLocking } = useBottomSheetInternal();
+  //#endregion
+
+  //#region variables
+  /**
+   * the scroll view waits for the sheet content gesture to decide its
+   * ownership, which it gives up for horizontal drags with axis locking.
+   */
+  const scrollableGesture = useMemo(() => {
+    const gesture = Gesture.Native().shouldCancelWhenOutside(false);
+
+    if (draggableGesture && enableAxisLocking) {
+      return gesture.requireExternalGestureToFail(draggableGesture);
+    }
+
+    return gesture;
+  }, [draggableGesture, enableAxisLocking]);
+  //#endregion
+
+  return (
+    <GestureDetector gesture={scrollableGesture}>
+      <ScrollView
+        ref={ref}
+        horizontal={true}
+        directionalLockEnabled={directionalLockEnabled}
+        {...rest}
+      >
+        {children}
+      </ScrollView>
+    </GestureDetector>
+  );
+});
+
+const BottomSheetHorizontalScrollView = memo(
+  BottomSheetHorizontalScrollViewComponent
+);
+BottomSheetHorizontalScrollView.displayName = 'BottomSheetHorizontalScrollView';
+
+export default BottomSheetHorizontalScrollView;
@@ -0,0 +1,2 @@
+export { default } from './BottomSheetHorizontalScrollView';
+export type { BottomSheetHorizontalScrollViewProps } from './types';
@@ -0,0 +1,4 @@
+import type { ScrollViewProps } from 'react-native';
+
+export interface BottomSheetHorizontalScrollViewProps
+  extends Omit<ScrollViewProps, 'horizontal'> {}
@@ -4,22 +4,39 @@ import React, {
   memo,
   type RefObject,
   useCallback,
+  useEffect,
   useImperativeHandle,
   useMemo,
   useRef,
   useState,
 } from 'react';
-import type { SNAP_POINT_TYPE } from '../../constants';
+import { AccessibilityInfo } from 'react-native';
+import { ANIMATION_SOURCE, type SNAP_POINT_TYPE } from '../../constants';
 import { useBottomSheetModalInternal } from '../../hooks';
-import type { BottomSheetMethods, BottomSheetModalMethods } from '../../types';
+import type {
+  BottomSheetAnimatedValues,
+  BottomSheetAnimatedValuesListener,
+  BottomSheetAnimationResult,
+  BottomSheetMethods,
+  BottomSheetModalMethods,
+} from '../../types';
 import { print } from '../../utilities';
 import { id } from '../../utilities/id';
+import { readPersistedState } from '../../utilities/persistence';
 import BottomSheet from '../bottomSheet';
 import {
+  DEFAULT_PERSISTENCE_STORAGE,
+  INITIAL_POSITION,
+} from '../bottomSheet/constants';
+import {
+  DEFAULT_BACK_PRESS_BEHAVIOR,
+  DEFAULT_ENABLE_DISMISS_ON_BACK_PRESS,
   DEFAULT_ENABLE_DISMISS_ON_CLOSE,
+  DEFAULT_ENABLE_DISMISS_ON_ESCAPE,
   DEFAULT_STACK_BEHAVIOR,
 } from './constants';
 import type {
+  BottomSheetModalDismissEventSource,
   BottomSheetModalPrivateMethods,
   BottomSheetModalProps,
   BottomSheetModalState,
@@ -30,6 +47,19 @@ const INITIAL_STATE: BottomSheetModalState = {
   data: undefined,
 };
 
+type AnimationRequestResolver = (result: BottomSheetAnimationResult) => void;
+
+const resolveAnimationRequests = (
+  requests: React.MutableRefObject<AnimationRequestResolver[]>,
+  result: BottomSheetAnimationResult
+) => {
+  const resolvers = requests.current;
+  requests.current = [];
+  for (const resolve of resolvers) {
+    resolve(result);
+  }
+};
+
 // biome-ignore lint/suspicious/noExplicitAny: Using 'any' allows users to define their own strict types for 'data' property.
 type BottomSheetModal<T = any> = BottomSheetModalMethods<T>;
 
@@ -43,6 +73,10 @@ function BottomSheetModalComponent<T = any>(
     name,
     stackBehavior = DEFAULT_STACK_BEHAVIOR,
     enableDismissOnClose = DEFAULT_ENABLE_DISMISS_ON_CLOSE,
+    enableDismissOnBackPress = DEFAULT_ENABLE_DISMISS_ON_BACK_PRESS,
+    enableDismissOnEscape = DEFAULT_ENABLE_DISMISS_ON_ESCAPE,
+    backPressBehavior = DEFAULT_BACK_PRESS_BEHAVIOR,
+    returnFocusRef,
     onDismiss: _providedOnDismiss,
     onAnimate: _providedOnAnimate,
 
@@ -52,6 +86,8 @@ function BottomSheetModalComponent<T = any>(
     enablePanDownToClose = true,
     animateOnMount = true,
     containerComponent: ContainerComponent = React.Fragment,
+    persistenceKey,
+    persistenceStorage = DEFAULT_PERSISTENCE_STORAGE,
 
     // callbacks
     onChange: _providedOnChange,
@@ -69,23 +105,37 @@ function BottomSheetModalComponent<T = any>(
   //#region hooks
   const {
     containerHeight,
+    containerWidth,
     containerOffset,
     mountSheet,
     unmountSheet,
     willUnmountSheet,
+    updateSheetIndex,
+    registerSheet,
+    unregisterSheet,
   } = useBottomSheetModalInternal();
   const { removePortal: unmountPortal } = usePortal();
   //#endregion
 
   //#region refs
   const bottomSheetRef = useRef<BottomSheet>(null);
+  const modalRef = useRef<BottomSheetModal<T>>(null);
   const currentIndexRef = useRef(!animateOnMount ? index : -1);
+  const currentPositionRef = useRef(INITIAL_POSITION);
   const nextIndexRef = useRef<number | null>(null);
   const restoreIndexRef = useRef(-1);
   const minimized = useRef(false);
   const forcedDismissed = useRef(false);
   const mounted = useRef(false);
   mounted.current = mount;
+  const persistenceRef = useRef({ persistenceKey, persistenceStorage });
+  persistenceRef.current = { persistenceKey, persistenceStorage };
+  const presentRequestsRef = useRef<AnimationRequestResolver[]>([]);
+  const dismissRequestsRef = useRef<AnimationRequestResolver[]>([]);
+  const animatedValuesRef = useRef<BottomSheetAnimatedValues>();
+  const animatedValuesListenersRef = useRef<
+    Set<BottomSheetAnimatedValuesListener>
+  >(new Set());
   //#endregion
 
   //#region variables
@@ -93,6 +143,16 @@ function BottomSheetModalComponent<T = any>(
   //#endregion
 
   //#region private methods
+  /**
+   * Resolve a method call, which could not start its animation.
+   */
+  const skipAnimationRequest = useCallback(function skipAnimationRequest() {
+    return Promise.resolve<BottomSheetAnimationResult>({
+      finished: false,
+      index: currentIndexRef.current,
+      position: currentPositionRef.current,
+    });
+  }, []);
   // biome-ignore lint/correctness/useExhaustiveDependencies(BottomSheetModal.name): used for debug only
   const resetVariables = useCallback(function resetVariables() {
     print({
@@ -116,6 +176,19 @@ function BottomSheetModalComponent<T = any>(
       }
       const _mounted = mounted.current;
 
+      // resolve pending present and dismiss requests
+      resolveAnimationRequests(presentRequestsRef, {
+        finished: false,
+        index: -1,
+        position: currentPositionRef.current,
+        interruptedBy: ANIMATION_SOURCE.USER,
+      });
+      resolveAnimationRequests(dismissRequestsRef, {
+        finished: true,
+        index: -1,
+        position: currentPositionRef.current,
+      });
+
       // reset variables
       resetVariables();
 
@@ -128,12 +201,27 @@ function BottomSheetModalComponent<T = any>(
         setState(INITIAL_STATE);
       }
 
+      // restore the screen reader focus
+      if (returnFocusRef?.current) {
+        AccessibilityInfo.sendAccessibilityEvent(
+          returnFocusRef.current,
+          'focus'
+        );
+      }
+
       // fire `onDismiss` callback
       if (_providedOnDismiss) {
         _providedOnDismiss();
       }
     },
-    [key, resetVariables, unmountSheet, unmountPortal, _providedOnDismiss]
+    [
+      key,
+      resetVariables,
+      unmountSheet,
+      unmountPortal,
+      returnFocusRef,
+      _providedOnDismiss,
+    ]
   );
   //#endregion
 
@@ -141,11 +229,24 @@ function BottomSheetModalComponent<T = any>(
   const handleSnapToIndex = useCallback<BottomSheetMethods['snapToIndex']>(
     (...args) => {
       if (minimized.current) {
-        return;
+        return skipAnimationRequest();
       }
-      bottomSheetRef.current?.snapToIndex(...args);
+      return (
+        bottomSheetRef.current?.snapToIndex(...args) ?? skipAnimationRequest()
+      );
     },
-    []
+    [skipAnimationRequest]
+  );
+  const handleSnapToId = useCallback<BottomSheetMethods['snapToId']>(
+    (...args) => {
+      if (minimized.current) {
+        return skipAnimationRequest();
+      }
+      return (
+        bottomSheetRef.current?.snapToId(...args) ?? skipAnimationRequest()
+      );
+    },
+    [skipAnimationRequest]
   );
   const handleSnapToPosition = useCallback<
     BottomSheetMethods['snapToPosition']
@@ -155,54 +256,101 @@ function BottomSheetModalComponent<T = any>(
     }
     bottomSheetRef.current?.snapToPosition(...args);
   }, []);
-  const handleExpand: BottomSheetMethods['expand'] = useCallback((...args) => {
-    if (minimized.current) {
-      return;
-    }
-    bottomSheetRef.current?.expand(...args);
-  }, []);
+  const handleExpand: BottomSheetMethods['expand'] = useCallback(
+    (...args) => {
+      if (minimized.current) {
+        return skipAnimationRequest();
+      }
+      return bottomSheetRef.current?.expand(...args) ?? skipAnimationRequest();
+    },
+    [skipAnimationRequest]
+  );
   const handleCollapse: BottomSheetMethods['collapse'] = useCallback(
     (...args) => {
       if (minimized.current) {
-        return;
+        return skipAnimationRequest();
       }
-      bottomSheetRef.current?.collapse(...args);
+      return (
+        bottomSheetRef.current?.collapse(...args) ?? skipAnimationRequest()
+      );
     },
-    []
+    [skipAnimationRequest]
+  );
+  const handleClose: BottomSheetMethods['close'] = useCallback(
+    (...args) => {
+      if (minimized.current) {
+        return skipAnimationRequest();
+      }
+      return bottomSheetRef.current?.close(...args) ?? skipAnimationRequest();
+    },
+    [skipAnimationRequest]
   );
-  const handleClose: BottomSheetMethods['close'] = useCallback((...args) => {
-    if (minimized.current) {
-      return;
-    }
-    bottomSheetRef.current?.close(...args);
-  }, []);
   const handleForceClose: BottomSheetMethods['forceClose'] = useCallback(
     (...args) => {
       if (minimized.current) {
-        return;
+        return skipAnimationRequest();
       }
-      bottomSheetRef.current?.forceClose(...args);
+      return (
+        bottomSheetRef.current?.forceClose(...args) ?? skipAnimationRequest()
+      );
     },
-    []
+    [skipAnimationRequest]
   );
+  const handleSubscribeToAnimatedValues = useCallback<
+    NonNullable<BottomSheetMethods['subscribeToAnimatedValues']>
+  >(function handleSubscribeToAnimatedValues(listener) {
+    animatedValuesListenersRef.current.add(listener);
+    listener(animatedValuesRef.current);
+    return () => {
+      animatedValuesListenersRef.current.delete(listener);
+    };
+  }, []);
   //#endregion
 
   //#region bottom sheet modal methods
-  // biome-ignore lint/correctness/useExhaustiveDependencies(BottomSheetModal.name): used for debug only
-  // biome-ignore lint/correctness/useExhaustiveDependencies(ref): ref is a stable object
   const handlePresent = useCallback(
     function handlePresent(_data?: T) {
+      /**
+       * presenting the modal interrupts its pending dismiss requests.
+       */
+      resolveAnimationRequests(dismissRequestsRef, {
+        finished: false,
+        index: currentIndexRef.current,
+        position: currentPositionRef.current,
+        interruptedBy: ANIMATION_SOURCE.USER,
+      });
+
+      const promise = new Promise<BottomSheetAnimationResult>(resolve => {
+        presentRequestsRef.current.push(resolve);
+      });
+
       requestAnimationFrame(() => {
+        /**
+         * resolve right away, if the modal is already presented.
+         */
+        if (
+          mounted.current &&
+          !minimized.current &&
+          currentIndexRef.current !== -1 &&
+          nextIndexRef.current == null
+        ) {
+          resolveAnimationRequests(presentRequestsRef, {
+            finished: true,
+            index: currentIndexRef.current,
+            position: currentPositionRef.current,
+          });
+        }
+
         setState({
           mount: true,
           data: _data,
         });
         mountSheet(
           key,
-          ref as unknown as RefObject<BottomSheetModalPrivateMethods>,
-          stackBehavior
+          modalRef as unknown as RefObject<BottomSheetModalPrivateMethods>,
+          stackBehavior,
+          name
         );
-        ref;
 
         if (__DEV__) {
           print({
@@ -211,9 +359,11 @@ function BottomSheetModalComponent<T = any>(
           });
         }
       });
+
+      return promise;
     },
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    [key, stackBehavior, mountSheet]
+    [key, name, stackBehavior, mountSheet]
   );
   // biome-ignore lint/correctness/useExhaustiveDependencies(BottomSheetModal.name): used for debug only
   const handleDismiss = useCallback<BottomSheetModalMethods['dismiss']>(
@@ -239,9 +389,17 @@ function BottomSheetModalComponent<T = any>(
         minimized.current === false &&
         !animating
       ) {
-        return;
+        return Promise.resolve({
+          finished: true,
+          index: -1,
+          position: currentPositionRef.current,
+        });
       }
 
+      const promise = new Promise<BottomSheetAnimationResult>(resolve => {
+        dismissRequestsRef.current.push(resolve);
+      });
+
       /**
        * unmount and early exit, if minimized or it is in closed position and not animating
        */
@@ -251,11 +409,12 @@ function BottomSheetModalComponent<T = any>(
           (currentIndexRef.current === -1 && enablePanDownToClose))
       ) {
         unmount();
-        return;
+        return promise;
       }
       willUnmountSheet(key);
       forcedDismissed.current = true;
       bottomSheetRef.current?.forceClose(animationConfigs);
+      return promise;
     },
     [willUnmountSheet, unmount, key, enablePanDownToClose]
   );
@@ -308,6 +467,45 @@ function BottomSheetModalComponent<T = any>(
     minimized.current = false;
     bottomSheetRef.current?.snapToIndex(restoreIndexRef.current);
   }, []);
+  const handleDismissEvent = useCallback(
+    function handleDismissEvent(source: BottomSheetModalDismissEventSource) {
+      if (
+        (source === 'backPress' && !enableDismissOnBackPress) ||
+        (source === 'escape' && !enableDismissOnEscape)
+      ) {
+        return false;
+      }
+
+      if (typeof backPressBehavior === 'function') {
+        return backPressBehavior();
+      }
+
+      /**
+       * snap to the provided index or collapse the modal, unless
+       * it is already there, then we fallback to dismiss.
+       */
+      const targetIndex =
+        backPressBehavior === 'collapse'
+          ? 0
+          : typeof backPressBehavior === 'number'
+            ? backPressBehavior
+            : -1;
+      if (targetIndex !== -1 && currentIndexRef.current !== targetIndex) {
+        handleSnapToIndex(targetIndex);
+        return true;
+      }
+
+      handleDismiss();
+      return true;
+    },
+    [
+      enableDismissOnBackPress,
+      enableDismissOnEscape,
+      backPressBehavior,
+      handleSnapToIndex,
+      handleDismiss,
+    ]
+  );
   //#endregion
 
   //#region callbacks
@@ -355,7 +553,8 @@ function BottomSheetModalComponent<T = any>(
     function handleBottomSheetOnChange(
       _index: number,
       _position: number,
-      _type: SNAP_POINT_TYPE
+      _type: SNAP_POINT_TYPE,
+      _id?: string
     ) {
       if (__DEV__) {
         print({
@@ -369,13 +568,23 @@ function BottomSheetModalComponent<T = any>(
         });
       }
       currentIndexRef.current = _index;
+      currentPositionRef.current = _position;
       nextIndexRef.current = null;
+      updateSheetIndex(key, _index);
+
+      if (_index !== -1) {
+        resolveAnimationRequests(presentRequestsRef, {
+          finished: true,
+          index: _index,
+          position: _position,
+        });
+      }
 
       if (_providedOnChange) {
-        _providedOnChange(_index, _position, _type);
+        _providedOnChange(_index, _position, _type, _id);
       }
     },
-    [_providedOnChange]
+    [key, updateSheetIndex, _providedOnChange]
   );
   const handleBottomSheetOnAnimate = useCallback(
     (fromIndex: number, toIndex: number) => {
@@ -408,28 +617,96 @@ function BottomSheetModalComponent<T = any>(
 
       if (enableDismissOnClose) {
         unmount();
+        return;
       }
+
+      resolveAnimationRequests(dismissRequestsRef, {
+        finished: true,
+        index: -1,
+        position: currentPositionRef.current,
+      });
     },
     [enableDismissOnClose, unmount]
   );
+  /**
+   * relay the sheet animated values, since the sheet
+   * mounts on present and unmounts on dismiss.
+   */
+  const handleBottomSheetOnAnimatedValuesChange = useCallback(
+    function handleBottomSheetOnAnimatedValuesChange(
+      values: BottomSheetAnimatedValues | undefined
+    ) {
+      animatedValuesRef.current = values;
+      for (const listener of animatedValuesListenersRef.current) {
+        listener(values);
+      }
+    },
+    []
+  );
+  //#endregion
+
+  //#region effects
+  /**
+   * register the modal by its name, to allow presenting
+   * it from anywhere without holding its ref.
+   */
+  useEffect(() => {
+    if (!name) {
+      return;
+    }
+
+    registerSheet(name, modalRef);
+    return () => {
+      unregisterSheet(name, modalRef);
+    };
+  }, [name, registerSheet, unregisterSheet]);
+
+  /**
+   * present the modal on mount with its persisted data,
+   * if it was presented when persisted.
+   */
+  useEffect(() => {
+    const { persistenceKey: key, persistenceStorage: storage } =
+      persistenceRef.current;
+    if (!key) {
+      return;
+    }
+
+    let isUnmounted = false;
+    readPersistedState(storage, key).then(state => {
+      if (isUnmounted || !state || state.index === -1 || mounted.current) {
+        return;
+      }
+
+      modalRef.current?.present(state.data as T);
+    });
+
+    return () => {
+      isUnmounted = true;
+    };
+  }, []);
   //#endregion
 
   //#region expose methods
-  useImperativeHandle(ref, () => ({
+  useImperativeHandle(modalRef, () => ({
     // sheet
     snapToIndex: handleSnapToIndex,
+    snapToId: handleSnapToId,
     snapToPosition: handleSnapToPosition,
     expand: handleExpand,
     collapse: handleCollapse,
     close: handleClose,
     forceClose: handleForceClose,
+    subscribeToAnimatedValues: handleSubscribeToAnimatedValues,
     // modal methods
     dismiss: handleDismiss,
     present: handlePresent,
     // internal
     minimize: handleMinimize,
     restore: handleRestore,
+    handleDismissEvent,
   }));
+  useImperativeHandle(ref, () => modalRef.current as BottomSheetModal<T>);
   //#endregion
 
   // render
@@ -450,12 +727,17 @@ function BottomSheetModalComponent<T = any>(
           snapPoints={snapPoints}
           enablePanDownToClose={enablePanDownToClose}
           animateOnMount={animateOnMount}
+          persistenceKey={persistenceKey}
+          persistenceStorage={persistenceStorage}
           containerHeight={containerHeight}
+          containerWidth={containerWidth}
           containerOffset={containerOffset}
           onChange={handleBottomSheetOnChange}
           onClose={handleBottomSheetOnClose}
           onAnimate={handleBottomSheetOnAnimate}
           $modal={true}
+          $persistedData={data}
+          $onAnimatedValuesChange={handleBottomSheetOnAnimatedValuesChange}
         >
           {typeof Content === 'function' ? <Content data={data} /> : Content}
         </BottomSheet>
@@ -1,4 +1,13 @@
 const DEFAULT_STACK_BEHAVIOR = 'switch';
 const DEFAULT_ENABLE_DISMISS_ON_CLOSE = true;
+const DEFAULT_ENABLE_DISMISS_ON_BACK_PRESS = false;
+const DEFAULT_ENABLE_DISMISS_ON_ESCAPE = false;
+const DEFAULT_BACK_PRESS_BEHAVIOR = 'dismiss' as const;
 
-export { DEFAULT_STACK_BEHAVIOR, DEFAULT_ENABLE_DISMISS_ON_CLOSE };
+export {
+  DEFAULT_STACK_BEHAVIOR,
+  DEFAULT_ENABLE_DISMISS_ON_CLOSE,
+  DEFAULT_ENABLE_DISMISS_ON_BACK_PRESS,
+  DEFAULT_ENABLE_DISMISS_ON_ESCAPE,
+  DEFAULT_BACK_PRESS_BEHAVIOR,
+};
@@ -3,4 +3,6 @@ export type {
   BottomSheetModalProps,
   BottomSheetModalPrivateMethods,
   BottomSheetModalStackBehavior,
+  BottomSheetModalBackPressBehavior,
+  BottomSheetModalDismissEventSource,
 } from './types';
@@ -7,15 +7,29 @@ export interface BottomSheetModalPrivateMethods {
   dismiss: (force?: boolean) => void;
   minimize: () => void;
   restore: () => void;
+  handleDismissEvent: (source: BottomSheetModalDismissEventSource) => boolean;
 }
 
 export type BottomSheetModalStackBehavior = keyof typeof MODAL_STACK_BEHAVIOR;
 
+export type BottomSheetModalDismissEventSource = 'backPress' | 'escape';
+
+export type BottomSheetModalBackPressBehavior =
+  | 'dismiss'
+  | 'collapse'
+  | number
+  | (() => boolean);
+
 // biome-ignore lint/suspicious/noExplicitAny: Using 'any' allows users to define their own strict types for 'data' property.
 export interface BottomSheetModalProps<T = any>
-  extends Omit<BottomSheetProps, 'containerHeight' | 'onClose'> {
+  extends Omit<
+    BottomSheetProps,
+    'containerHeight' | 'containerWidth' | 'onClose'
+  > {
   /**
-   * Modal name to help identify the modal for later on.
+   * Modal name to help identify the modal for later on, it also
+   * registers the modal to be presented by name using
+   * `useBottomSheetModal().present(name, data)`.
    * @type string
    * @default generated unique key.
    */
@@ -38,6 +52,41 @@ export interface BottomSheetModalProps<T = any>
    */
   enableDismissOnClose?: boolean;
 
+  /**
+   * Enable handling the Android hardware back button press,
+   * when the modal is the top-most presented one.
+   * @type boolean
+   * @default false
+   */
+  enableDismissOnBackPress?: boolean;
+
+  /**
+   * Enable handling the `Escape` key press on web,
+   * when the modal is the top-most presented one.
+   * @type boolean
+   * @default false
+   */
+  enableDismissOnEscape?: boolean;
+
+  /**
+   * Defines what should happen when the back button or `Escape` key is pressed.
+   * - `dismiss` it will dismiss the modal.
+   * - `collapse` it will collapse the modal, or dismiss it if already collapsed.
+   * - `number` it will snap to the provided index, or dismiss the modal if already there.
+   * - `() => boolean` custom handler, which returns whether the event was handled.
+   * @type `dismiss` | `collapse` | number | (() => boolean)
+   * @default dismiss
+   */
+  backPressBehavior?: BottomSheetModalBackPressBehavior;
+
+  /**
+   * Element to move the screen reader focus to, once the modal is dismissed.
+   * Usually the element which presented the modal.
+   * @type React.RefObject<View>
+   * @default undefined
+   */
+  returnFocusRef?: React.RefObject<View>;
+
   /**
    * Add a custom container like FullWindowOverlay
    * allow to fix issue like https://github.com/gorhom/react-native-bottom-sheet/issues/832
@@ -1,43 +1,88 @@
 import { PortalProvider } from '@gorhom/portal';
 import React, { useCallback, useMemo, useRef } from 'react';
 import { useSharedValue } from 'react-native-reanimated';
-import { MODAL_STACK_BEHAVIOR } from '../../constants';
+import { MODAL_STACK_BEHAVIOR, MODAL_STACK_STATE } from '../../constants';
 import {
   BottomSheetModalInternalProvider,
   BottomSheetModalProvider,
 } from '../../contexts';
+import { useModalDismissEvents, useStableCallback } from '../../hooks';
+import type { BottomSheetModalMethods } from '../../types';
 import {
   INITIAL_CONTAINER_HEIGHT,
   INITIAL_CONTAINER_OFFSET,
+  INITIAL_CONTAINER_WIDTH,
 } from '../bottomSheet/constants';
 import BottomSheetContainer from '../bottomSheetContainer';
 import type {
+  BottomSheetModalDismissEventSource,
   BottomSheetModalPrivateMethods,
   BottomSheetModalStackBehavior,
 } from '../bottomSheetModal';
 import type {
   BottomSheetModalProviderProps,
   BottomSheetModalRef,
+  BottomSheetModalStackItem,
 } from './types';
 
 const BottomSheetModalProviderWrapper = ({
+  onStackChange: _providedOnStackChange,
   children,
 }: BottomSheetModalProviderProps) => {
   //#region layout variables
   const animatedContainerHeight = useSharedValue(INITIAL_CONTAINER_HEIGHT);
+  const animatedContainerWidth = useSharedValue(INITIAL_CONTAINER_WIDTH);
   const animatedContainerOffset = useSharedValue(INITIAL_CONTAINER_OFFSET);
   //#endregion
 
   //#region variables
   const sheetsQueueRef = useRef<BottomSheetModalRef[]>([]);
+  /**
+   * registered modals by name, a name could be registered by multiple
+   * mounted modals, like the same screen pushed twice, where the
+   * latest mounted one gets presented.
+   */
+  const sheetsRegistryRef = useRef<
+    Map<string, React.RefObject<BottomSheetModalMethods>[]>
+  >(new Map());
+  const stackRef = useRef<BottomSheetModalStackItem[]>([]);
+  const stackListenersRef = useRef<Set<() => void>>(new Set());
+  //#endregion
+
+  //#region callbacks
+  const handleOnStackChange = useStableCallback(
+    (stack: BottomSheetModalStackItem[]) => {
+      if (_providedOnStackChange) {
+        _providedOnStackChange(stack);
+      }
+    }
+  );
   //#endregion
 
   //#region private methods
+  const notifyStackChange = useCallback(() => {
+    stackRef.current = sheetsQueueRef.current.map(item => ({
+      key: item.key,
+      name: item.name,
+      state: item.willUnmount
+        ? MODAL_STACK_STATE.willUnmount
+        : item.minimized
+          ? MODAL_STACK_STATE.minimized
+          : MODAL_STACK_STATE.presented,
+      index: item.index,
+    }));
+
+    for (const listener of stackListenersRef.current) {
+      listener();
+    }
+    handleOnStackChange(stackRef.current);
+  }, [handleOnStackChange]);
   const handleMountSheet = useCallback(
     (
       key: string,
       ref: React.RefObject<BottomSheetModalPrivateMethods>,
-      stackBehavior: BottomSheetModalStackBehavior
+      stackBehavior: BottomSheetModalStackBehavior,
+      name?: string
     ) => {
       const _sheetsQueue = sheetsQueueRef.current.slice();
       const sheetIndex = _sheetsQueue.findIndex(item => item.key === key);
@@ -69,6 +114,7 @@ const BottomSheetModalProviderWrapper = ({
           currentMountedSheet.ref?.current?.dismiss();
         } else if (stackBehavior === MODAL_STACK_BEHAVIOR.switch) {
           currentMountedSheet.ref?.current?.minimize();
+          currentMountedSheet.minimized = true;
         }
       }
 
@@ -76,78 +122,172 @@ const BottomSheetModalProviderWrapper = ({
        * Restore and remove incoming sheet from the queue,
        * if it was registered.
        */
+      let index = -1;
       if (sheetIndex !== -1) {
+        index = _sheetsQueue[sheetIndex].index;
         _sheetsQueue.splice(sheetIndex, 1);
         ref?.current?.restore();
       }
 
       _sheetsQueue.push({
         key,
+        name,
         ref,
         willUnmount: false,
+        minimized: false,
+        index,
       });
       sheetsQueueRef.current = _sheetsQueue;
+      notifyStackChange();
     },
-    []
+    [notifyStackChange]
   );
-  const handleUnmountSheet = useCallback((key: string) => {
-    const _sheetsQueue = sheetsQueueRef.current.slice();
-    const sheetIndex = _sheetsQueue.findIndex(item => item.key === key);
-    const sheetOnTop = sheetIndex === _sheetsQueue.length - 1;
-
-    /**
-     * Here we remove the unmounted sheet and update
-     * the sheets queue.
-     */
-    _sheetsQueue.splice(sheetIndex, 1);
-    sheetsQueueRef.current = _sheetsQueue;
-
-    /**
-     * Here we try to restore previous sheet position if unmounted
-     * sheet was on top. This is needed when user dismiss
-     * the modal by panning down.
-     */
-    const hasMinimizedSheet = sheetsQueueRef.current.length > 0;
-    const minimizedSheet =
-      sheetsQueueRef.current[sheetsQueueRef.current.length - 1];
-    if (
-      sheetOnTop &&
-      hasMinimizedSheet &&
-      minimizedSheet &&
-      !minimizedSheet.willUnmount
-    ) {
-      sheetsQueueRef.current[
-        sheetsQueueRef.current.length - 1
-      ].ref?.current?.restore();
-    }
-  }, []);
-  const handleWillUnmountSheet = useCallback((key: string) => {
-    const _sheetsQueue = sheetsQueueRef.current.slice();
-    const sheetIndex = _sheetsQueue.findIndex(item => item.key === key);
-    const sheetOnTop = sheetIndex === _sheetsQueue.length - 1;
-
-    /**
-     * Here we mark the sheet that will unmount,
-     * so it won't be restored.
-     */
-    if (sheetIndex !== -1) {
-      _sheetsQueue[sheetIndex].willUnmount = true;
-    }
+  const handleUnmountSheet = useCallback(
+    (key: string) => {
+      const _sheetsQueue = sheetsQueueRef.current.slice();
+      const sheetIndex = _sheetsQueue.findIndex(item => item.key === key);
+      const sheetOnTop = sheetIndex === _sheetsQueue.length - 1;
 
-    /**
-     * Here we try to restore previous sheet position,
-     * This is needed when user dismiss the modal by fire the dismiss action.
-     */
-    const hasMinimizedSheet = _sheetsQueue.length > 1;
-    if (sheetOnTop && hasMinimizedSheet) {
-      _sheetsQueue[_sheetsQueue.length - 2].ref?.current?.restore();
-    }
+      /**
+       * Here we remove the unmounted sheet and update
+       * the sheets queue.
+       */
+      _sheetsQueue.splice(sheetIndex, 1);
+      sheetsQueueRef.current = _sheetsQueue;
+
+      /**
+       * Here we try to restore previous sheet position if unmounted
+       * sheet was on top. This is needed when user dismiss
+       * the modal by panning down.
+       */
+      const hasMinimizedSheet = sheetsQueueRef.current.length > 0;
+      const minimizedSheet =
+        sheetsQueueRef.current[sheetsQueueRef.current.length - 1];
+      if (
+        sheetOnTop &&
+        hasMinimizedSheet &&
+        minimizedSheet &&
+        !minimizedSheet.willUnmount
+      ) {
+        minimizedSheet.ref?.current?.restore();
+        minimizedSheet.minimized = false;
+      }
+
+      notifyStackChange();
+    },
+    [notifyStackChange]
+  );
+  const handleWillUnmountSheet = useCallback(
+    (key: string) => {
+      const _sheetsQueue = sheetsQueueRef.current.slice();
+      const sheetIndex = _sheetsQueue.findIndex(item => item.key === key);
+      const sheetOnTop = sheetIndex === _sheetsQueue.length - 1;
+
+      /**
+       * Here we mark the sheet that will unmount,
+       * so it won't be restored.
+       */
+      if (sheetIndex !== -1) {
+        _sheetsQueue[sheetIndex].willUnmount = true;
+      }
+
+      /**
+       * Here we try to restore previous sheet position,
+       * This is needed when user dismiss the modal by fire the dismiss action.
+       */
+      const hasMinimizedSheet = _sheetsQueue.length > 1;
+      if (sheetOnTop && hasMinimizedSheet) {
+        const minimizedSheet = _sheetsQueue[_sheetsQueue.length - 2];
+        minimizedSheet.ref?.current?.restore();
+        minimizedSheet.minimized = false;
+      }
 
-    sheetsQueueRef.current = _sheetsQueue;
+      sheetsQueueRef.current = _sheetsQueue;
+      notifyStackChange();
+    },
+    [notifyStackChange]
+  );
+  const handleUpdateSheetIndex = useCallback(
+    (key: string, index: number) => {
+      const sheet = sheetsQueueRef.current.find(item => item.key === key);
+      if (!sheet || sheet.index === index) {
+        return;
+      }
+
+      sheet.index = index;
+      notifyStackChange();
+    },
+    [notifyStackChange]
+  );
+  const handleSubscribeToStack = useCallback((listener: () => void) => {
+    stackListenersRef.current.add(listener);
+    return () => {
+      stackListenersRef.current.delete(listener);
+    };
   }, []);
+  const handleGetStack = useCallback(() => stackRef.current, []);
+  const handleDismissEvent = useCallback(
+    (source: BottomSheetModalDismissEventSource) => {
+      /**
+       * Only the top-most sheet, which is not unmounting,
+       * can consume the event.
+       */
+      const topMostSheet = sheetsQueueRef.current
+        .filter(item => !item.willUnmount)
+        .pop();
+      if (!topMostSheet || topMostSheet.minimized) {
+        return false;
+      }
+
+      return topMostSheet.ref?.current?.handleDismissEvent(source) ?? false;
+    },
+    []
+  );
+  const handleRegisterSheet = useCallback(
+    (name: string, ref: React.RefObject<BottomSheetModalMethods>) => {
+      const refs = sheetsRegistryRef.current.get(name) ?? [];
+
+      if (__DEV__ && refs.length > 0) {
+        console.warn(
+          `Multiple mounted modals are registered with the name "${name}", the latest mounted one will be presented.`
+        );
+      }
+
+      sheetsRegistryRef.current.set(name, [
+        ...refs.filter(item => item !== ref),
+        ref,
+      ]);
+    },
+    []
+  );
+  const handleUnregisterSheet = useCallback(
+    (name: string, ref: React.RefObject<BottomSheetModalMethods>) => {
+      const refs = sheetsRegistryRef.current.get(name);
+      if (!refs) {
+        return;
+      }
+
+      const remainingRefs = refs.filter(item => item !== ref);
+      if (remainingRefs.length > 0) {
+        sheetsRegistryRef.current.set(name, remainingRefs);
+      } else {
+        sheetsRegistryRef.current.delete(name);
+      }
+    },
+    []
+  );
   //#endregion
 
   //#region public methods
+  const handlePresent = useCallback((name: string, data?: unknown) => {
+    const refs = sheetsRegistryRef.current.get(name);
+    const sheetToBePresented = refs?.[refs.length - 1];
+    if (sheetToBePresented?.current) {
+      sheetToBePresented.current.present(data);
+      return true;
+    }
+    return false;
+  }, []);
   const handleDismiss = useCallback((key?: string) => {
     const sheetToBeDismissed = key
       ? sheetsQueueRef.current.find(item => item.key === key)
@@ -165,28 +305,45 @@ const BottomSheetModalProviderWrapper = ({
   }, []);
   //#endregion
 
+  //#region effects
+  useModalDismissEvents(handleDismissEvent);
+  //#endregion
+
   //#region context variables
   const externalContextVariables = useMemo(
     () => ({
+      present: handlePresent,
       dismiss: handleDismiss,
       dismissAll: handleDismissAll,
     }),
-    [handleDismiss, handleDismissAll]
+    [handlePresent, handleDismiss, handleDismissAll]
   );
   const internalContextVariables = useMemo(
     () => ({
       containerHeight: animatedContainerHeight,
+      containerWidth: animatedContainerWidth,
       containerOffset: animatedContainerOffset,
       mountSheet: handleMountSheet,
       unmountSheet: handleUnmountSheet,
       willUnmountSheet: handleWillUnmountSheet,
+      updateSheetIndex: handleUpdateSheetIndex,
+      subscribeToStack: handleSubscribeToStack,
+      getStack: handleGetStack,
+      registerSheet: handleRegisterSheet,
+      unregisterSheet: handleUnregisterSheet,
     }),
     [
       animatedContainerHeight,
+      animatedContainerWidth,
       animatedContainerOffset,
       handleMountSheet,
       handleUnmountSheet,
       handleWillUnmountSheet,
+      handleUpdateSheetIndex,
+      handleSubscribeToStack,
+      handleGetStack,
+      handleRegisterSheet,
+      handleUnregisterSheet,
     ]
   );
   //#endregion
@@ -198,6 +355,7 @@ const BottomSheetModalProviderWrapper = ({
         <BottomSheetContainer
           containerOffset={animatedContainerOffset}
           containerHeight={animatedContainerHeight}
+          containerWidth={animatedContainerWidth}
         />
         <PortalProvider>{children}</PortalProvider>
       </BottomSheetModalInternalProvider>
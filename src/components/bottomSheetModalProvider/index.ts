@@ -1 +1,6 @@
 export { default } from './BottomSheetModalProvider';
+export type {
+  BottomSheetModalProviderProps,
+  BottomSheetModalStackItem,
+  BottomSheetModalStackState,
+} from './types';
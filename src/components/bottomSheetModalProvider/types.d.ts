@@ -1,12 +1,46 @@
 import type { ReactNode, RefObject } from 'react';
+import type { MODAL_STACK_STATE } from '../../constants';
 import type { BottomSheetModalPrivateMethods } from '../bottomSheetModal';
 
 export interface BottomSheetModalRef {
   key: string;
+  name?: string;
   ref: RefObject<BottomSheetModalPrivateMethods>;
   willUnmount: boolean;
+  minimized: boolean;
+  index: number;
+}
+
+export type BottomSheetModalStackState = keyof typeof MODAL_STACK_STATE;
+
+export interface BottomSheetModalStackItem {
+  /**
+   * Modal key, which is its name or a generated unique key.
+   */
+  key: string;
+  /**
+   * Modal name, if provided.
+   */
+  name?: string;
+  /**
+   * Modal state in the stack.
+   * - `presented` the modal is presented.
+   * - `minimized` the modal is minimized by another modal on top of it.
+   * - `willUnmount` the modal is being dismissed.
+   */
+  state: BottomSheetModalStackState;
+  /**
+   * Modal current snap point index.
+   */
+  index: number;
 }
 
 export interface BottomSheetModalProviderProps {
+  /**
+   * Callback when the modals stack changes, ordered from the
+   * bottom-most modal to the top-most one.
+   * @type (stack: BottomSheetModalStackItem[]) => void;
+   */
+  onStackChange?: (stack: BottomSheetModalStackItem[]) => void;
   children?: ReactNode;
 }
@@ -0,0 +1,109 @@
+import React, { memo, useCallback, useEffect, useMemo } from 'react';
+import type { LayoutChangeEvent } from 'react-native';
+import Animated, {
+  useAnimatedStyle,
+  useSharedValue,
+} from 'react-native-reanimated';
+import { OVERLAY_ANCHOR } from '../../constants';
+import {
+  useAnimatedVisibleContentBottom,
+  useBottomSheetInternal,
+  useFooterHeightContribution,
+} from '../../hooks';
+import { DEFAULT_OVERLAY_ANCHOR, DEFAULT_OVERLAY_OFFSET } from './constants';
+import { styles } from './styles';
+import type { BottomSheetOverlayProps } from './types';
+
+function BottomSheetOverlayComponent({
+  anchor = DEFAULT_OVERLAY_ANCHOR,
+  offset = DEFAULT_OVERLAY_OFFSET,
+  style,
+  children,
+}: BottomSheetOverlayProps) {
+  //#region hooks
+  const { animatedFooterHeight } = useBottomSheetInternal();
+  const animatedVisibleContentBottom = useAnimatedVisibleContentBottom();
+  const setFooterHeight = useFooterHeightContribution();
+  //#endregion
+
+  //#region variables
+  const animatedOverlayHeight = useSharedValue(0);
+  //#endregion
+
+  //#region styles
+  const containerAnimatedStyle = useAnimatedStyle(() => {
+    let overlayTranslateY = offset;
+
+    if (anchor === OVERLAY_ANCHOR.footer) {
+      overlayTranslateY =
+        animatedVisibleContentBottom.value -
+        animatedOverlayHeight.value -
+        offset;
+    } else if (anchor === OVERLAY_ANCHOR.aboveFooter) {
+      overlayTranslateY =
+        animatedVisibleContentBottom.value -
+        animatedFooterHeight.value -
+        animatedOverlayHeight.value -
+        offset;
+    }
+
+    return {
+      transform: [
+        {
+          translateY: Math.max(0, overlayTranslateY),
+        },
+      ],
+    };
+  }, [
+    anchor,
+    offset,
+    animatedVisibleContentBottom,
+    animatedFooterHeight,
+    animatedOverlayHeight,
+  ]);
+  const containerStyle = useMemo(
+    () => [styles.container, style, containerAnimatedStyle],
+    [style, containerAnimatedStyle]
+  );
+  //#endregion
+
+  //#region callbacks
+  const handleContainerLayout = useCallback(
+    ({
+      nativeEvent: {
+        layout: { height },
+      },
+    }: LayoutChangeEvent) => {
+      animatedOverlayHeight.value = height;
+
+      /**
+       * only the overlays anchored to the footer take part of its height.
+       */
+      setFooterHeight(anchor === OVERLAY_ANCHOR.footer ? height : 0);
+    },
+    [anchor, animatedOverlayHeight, setFooterHeight]
+  );
+  //#endregion
+
+  //#region effects
+  /**
+   * update the footer height contribution, when the anchor changes.
+   */
+  useEffect(() => {
+    setFooterHeight(
+      anchor === OVERLAY_ANCHOR.footer ? animatedOverlayHeight.value : 0
+    );
+  }, [anchor, animatedOverlayHeight, setFooterHeight]);
+  //#endregion
+
+  return (
+    <Animated.View onLayout={handleContainerLayout} style={containerStyle}>
+      {children}
+    </Animated.View>
+  );
+}
+
+const BottomSheetOverlay = memo(BottomSheetOverlayComponent);
+BottomSheetOverlay.displayName = 'BottomSheetOverlay';
+
+export default BottomSheetOverlay;
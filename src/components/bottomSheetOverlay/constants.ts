@@ -0,0 +1,6 @@
+import { OVERLAY_ANCHOR } from '../../constants';
+
+const DEFAULT_OVERLAY_ANCHOR = OVERLAY_ANCHOR.aboveFooter;
+const DEFAULT_OVERLAY_OFFSET = 0;
+
+export { DEFAULT_OVERLAY_ANCHOR, DEFAULT_OVERLAY_OFFSET };
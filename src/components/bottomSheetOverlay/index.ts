@@ -0,0 +1,2 @@
+export { default } from './BottomSheetOverlay';
+export type { BottomSheetOverlayProps } from './types';
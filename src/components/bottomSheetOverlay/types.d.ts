@@ -0,0 +1,39 @@
+import type { ReactNode } from 'react';
+import type { ViewStyle } from 'react-native';
+import type { OVERLAY_ANCHOR } from '../../constants';
+
+export interface BottomSheetOverlayProps {
+  /**
+   * Defines where the overlay is anchored, within the sheet visible area.
+   * @enum
+   * - `footer`: the bottom of the visible area, above the keyboard,
+   * its height is added to the footer height.
+   * - `aboveFooter`: above the footer.
+   * - `top`: the top of the visible area, under the handle.
+   * @type `footer` | `aboveFooter` | `top`
+   * @default aboveFooter
+   */
+  anchor?: keyof typeof OVERLAY_ANCHOR;
+
+  /**
+   * Distance between the overlay and its anchor.
+   *
+   * @type number
+   * @default 0
+   */
+  offset?: number;
+
+  /**
+   * Container style.
+   *
+   * @type ViewStyle
+   */
+  style?: ViewStyle;
+
+  /**
+   * Component to be placed in the overlay.
+   *
+   * @type {ReactNode|ReactNode[]}
+   */
+  children?: ReactNode | ReactNode[];
+}
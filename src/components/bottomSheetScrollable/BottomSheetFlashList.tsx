@@ -34,6 +34,7 @@ const BottomSheetFlashListComponent = forwardRef<
   //#region props
   const {
     focusHook,
+    scrollableId,
     scrollEventsHandlersHook,
     enableFooterMarginAdjustment,
     ...rest
@@ -59,13 +60,19 @@ const BottomSheetFlashListComponent = forwardRef<
               ref={ref}
               {...props}
               focusHook={focusHook}
+              scrollableId={scrollableId}
               scrollEventsHandlersHook={scrollEventsHandlersHook}
               enableFooterMarginAdjustment={enableFooterMarginAdjustment}
             />
           );
         }
       ),
-    [focusHook, scrollEventsHandlersHook, enableFooterMarginAdjustment]
+    [
+      focusHook,
+      scrollableId,
+      scrollEventsHandlersHook,
+      enableFooterMarginAdjustment,
+    ]
   );
   return (
     <FlashList.FlashList
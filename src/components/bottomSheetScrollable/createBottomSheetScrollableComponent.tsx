@@ -33,6 +33,7 @@ export function createBottomSheetScrollableComponent<T, P>(
       focusHook,
       scrollEventsHandlersHook,
       // props
+      scrollableId,
       enableFooterMarginAdjustment = false,
       overScrollMode = 'never',
       keyboardDismissMode = 'interactive',
@@ -59,7 +60,8 @@ export function createBottomSheetScrollableComponent<T, P>(
         scrollEventsHandlersHook,
         onScroll,
         onScrollBeginDrag,
-        onScrollEndDrag
+        onScrollEndDrag,
+        scrollableId
       );
     const {
       animatedFooterHeight,
@@ -136,7 +138,8 @@ export function createBottomSheetScrollableComponent<T, P>(
       type,
       scrollableContentOffsetY,
       onRefresh !== undefined,
-      focusHook
+      focusHook,
+      scrollableId
     );
     //#endregion
 
@@ -38,6 +38,16 @@ export interface BottomSheetScrollableProps {
    */
   focusHook?: (effect: EffectCallback, deps?: DependencyList) => void;
 
+  /**
+   * The scrollable id to register it with the bottom sheet, when multiple scrollables
+   * are mounted at the same time, like in tab views.
+   * It gets activated when it matches the bottom sheet `activeScrollableId` prop.
+   *
+   * @type string
+   * @default undefined
+   */
+  scrollableId?: string;
+
   /**
    * Custom hook to provide scroll events handler, which will allow advance and
    * customize handling for scrollables.
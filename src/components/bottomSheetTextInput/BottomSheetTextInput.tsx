@@ -1,18 +1,31 @@
-import React, { memo, useCallback, forwardRef, useEffect } from 'react';
+import React, {
+  memo,
+  useCallback,
+  forwardRef,
+  useEffect,
+  useMemo,
+  useRef,
+} from 'react';
 import type {
   NativeSyntheticEvent,
   TextInputFocusEventData,
 } from 'react-native';
 import { TextInput } from 'react-native-gesture-handler';
 import { useBottomSheetInternal } from '../../hooks';
+import { id } from '../../utilities/id';
 import type { BottomSheetTextInputProps } from './types';
 
 const BottomSheetTextInputComponent = forwardRef<
   TextInput,
   BottomSheetTextInputProps
->(({ onFocus, onBlur, ...rest }, ref) => {
+>(({ onFocus, onBlur, keyboardBehavior, keyboardSnapIndex, ...rest }, ref) => {
   //#region hooks
-  const { shouldHandleKeyboardEvents } = useBottomSheetInternal();
+  const {
+    shouldHandleKeyboardEvents,
+    keyboardPolicy,
+    setFocusedInputRef,
+    removeFocusedInputRef,
+  } = useBottomSheetInternal();
 
   useEffect(() => {
     return () => {
@@ -22,24 +35,62 @@ const BottomSheetTextInputComponent = forwardRef<
   }, [shouldHandleKeyboardEvents]);
   //#endregion
 
+  //#region variables
+  const inputId = useMemo(() => id(), []);
+  const inputRef = useRef<TextInput | null>(null);
+  //#endregion
+
   //#region callbacks
+  /**
+   * keeps the input ref, while forwarding it.
+   */
+  const handleInputRef = useCallback(
+    (input: TextInput | null) => {
+      inputRef.current = input;
+      if (typeof ref === 'function') {
+        ref(input);
+      } else if (ref) {
+        ref.current = input;
+      }
+    },
+    [ref]
+  );
   const handleOnFocus = useCallback(
     (args: NativeSyntheticEvent<TextInputFocusEventData>) => {
+      /**
+       * the policy is kept after blur, so the keyboard hide event
+       * is handled with the same behavior.
+       */
+      keyboardPolicy.value = {
+        id: inputId,
+        keyboardBehavior,
+        keyboardSnapIndex,
+      };
       shouldHandleKeyboardEvents.value = true;
+      setFocusedInputRef(inputRef);
       if (onFocus) {
         onFocus(args);
       }
     },
-    [onFocus, shouldHandleKeyboardEvents]
+    [
+      onFocus,
+      inputId,
+      keyboardBehavior,
+      keyboardSnapIndex,
+      keyboardPolicy,
+      shouldHandleKeyboardEvents,
+      setFocusedInputRef,
+    ]
   );
   const handleOnBlur = useCallback(
     (args: NativeSyntheticEvent<TextInputFocusEventData>) => {
       shouldHandleKeyboardEvents.value = false;
+      removeFocusedInputRef(inputRef);
       if (onBlur) {
         onBlur(args);
       }
     },
-    [onBlur, shouldHandleKeyboardEvents]
+    [onBlur, shouldHandleKeyboardEvents, removeFocusedInputRef]
   );
   //#endregion
 
@@ -50,10 +101,19 @@ const BottomSheetTextInputComponent = forwardRef<
       shouldHandleKeyboardEvents.value = false;
     };
   }, [shouldHandleKeyboardEvents]);
+  useEffect(() => {
+    return () => {
+      // Reset the policy on unmount, if it was set by this input
+      if (keyboardPolicy.value?.id === inputId) {
+        keyboardPolicy.value = null;
+      }
+      removeFocusedInputRef(inputRef);
+    };
+  }, [inputId, keyboardPolicy, removeFocusedInputRef]);
   //#endregion
   return (
     <TextInput
-      ref={ref}
+      ref={handleInputRef}
       onFocus={handleOnFocus}
       onBlur={handleOnBlur}
       {...rest}
@@ -1,3 +1,17 @@
 import type { TextInputProps } from 'react-native';
+import type { KEYBOARD_BEHAVIOR } from '../../constants';
 
-export interface BottomSheetTextInputProps extends TextInputProps {}
+export interface BottomSheetTextInputProps extends TextInputProps {
+  /**
+   * Overrides the sheet keyboard appearance behavior,
+   * while this input is focused.
+   * @type `interactive` | `extend` | `fillParent` | `snapToIndex`
+   * @default the sheet `keyboardBehavior`
+   */
+  keyboardBehavior?: keyof typeof KEYBOARD_BEHAVIOR;
+  /**
+   * Overrides the sheet keyboard snap index, while this input is focused.
+   * @default the sheet `keyboardSnapIndex`
+   */
+  keyboardSnapIndex?: number;
+}
@@ -5,7 +5,7 @@ import {
   type ViewStyle,
 } from 'react-native';
 import Animated, { useAnimatedStyle } from 'react-native-reanimated';
-import { SCROLLABLE_TYPE } from '../../constants';
+import { SCROLLABLE_TYPE, SHEET_EDGE } from '../../constants';
 import { useBottomSheetInternal } from '../../hooks';
 import { print } from '../../utilities';
 import type { BottomSheetViewProps } from './types';
@@ -25,6 +25,7 @@ function BottomSheetViewComponent({
     animatedFooterHeight,
     enableDynamicSizing,
     animatedContentHeight,
+    edge,
   } = useBottomSheetInternal();
   //#endregion
 
@@ -58,7 +59,14 @@ function BottomSheetViewComponent({
   const handleLayout = useCallback(
     (event: LayoutChangeEvent) => {
       if (enableDynamicSizing) {
-        animatedContentHeight.value = event.nativeEvent.layout.height;
+        /**
+         * on horizontal edges, the content size is measured
+         * on the sheet axis.
+         */
+        animatedContentHeight.value =
+          edge === SHEET_EDGE.left || edge === SHEET_EDGE.right
+            ? event.nativeEvent.layout.width
+            : event.nativeEvent.layout.height;
       }
 
       if (onLayout) {
@@ -72,11 +80,12 @@ function BottomSheetViewComponent({
           category: 'layout',
           params: {
             height: event.nativeEvent.layout.height,
+            width: event.nativeEvent.layout.width,
           },
         });
       }
     },
-    [onLayout, animatedContentHeight, enableDynamicSizing]
+    [onLayout, animatedContentHeight, enableDynamicSizing, edge]
   );
   //#endregion
 
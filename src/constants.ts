@@ -68,6 +68,12 @@ enum SNAP_POINT_TYPE {
   DYNAMIC = 1,
 }
 
+enum DRAG_DIRECTION {
+  NONE = 0,
+  OPENING = 1,
+  CLOSING = 2,
+}
+
 const ANIMATION_EASING: Animated.EasingFunction = Easing.out(Easing.exp);
 const ANIMATION_DURATION = 250;
 
@@ -104,10 +110,24 @@ const MODAL_STACK_BEHAVIOR = {
   switch: 'switch',
 };
 
+const MODAL_STACK_STATE = {
+  presented: 'presented',
+  minimized: 'minimized',
+  willUnmount: 'willUnmount',
+} as const;
+
+const SHEET_EDGE = {
+  bottom: 'bottom',
+  top: 'top',
+  left: 'left',
+  right: 'right',
+} as const;
+
 const KEYBOARD_BEHAVIOR = {
   interactive: 'interactive',
   extend: 'extend',
   fillParent: 'fillParent',
+  snapToIndex: 'snapToIndex',
 } as const;
 
 const KEYBOARD_BLUR_BEHAVIOR = {
@@ -122,6 +142,17 @@ const KEYBOARD_INPUT_MODE = {
 
 const KEYBOARD_DISMISS_THRESHOLD = 12.5;
 
+const FOOTER_BEHAVIOR = {
+  pinned: 'pinned',
+  followContent: 'followContent',
+} as const;
+
+const OVERLAY_ANCHOR = {
+  footer: 'footer',
+  aboveFooter: 'aboveFooter',
+  top: 'top',
+} as const;
+
 export {
   GESTURE_SOURCE,
   SHEET_STATE,
@@ -132,16 +163,21 @@ export {
   SCROLLABLE_STATE,
   KEYBOARD_STATE,
   SNAP_POINT_TYPE,
+  DRAG_DIRECTION,
   WINDOW_HEIGHT,
   WINDOW_WIDTH,
   SCREEN_HEIGHT,
   SCREEN_WIDTH,
   SCROLLABLE_DECELERATION_RATE_MAPPER,
   MODAL_STACK_BEHAVIOR,
+  MODAL_STACK_STATE,
+  SHEET_EDGE,
   KEYBOARD_BEHAVIOR,
   KEYBOARD_BLUR_BEHAVIOR,
   KEYBOARD_INPUT_MODE,
   KEYBOARD_DISMISS_THRESHOLD,
+  FOOTER_BEHAVIOR,
+  OVERLAY_ANCHOR,
   ANIMATION_CONFIGS,
   ANIMATION_EASING,
   ANIMATION_DURATION,
@@ -1,8 +1,13 @@
 import { createContext } from 'react';
-import type { BottomSheetMethods, BottomSheetVariables } from '../types';
+import type {
+  BottomSheetGestureVariables,
+  BottomSheetMethods,
+  BottomSheetVariables,
+} from '../types';
 
 export const BottomSheetContext = createContext<
-  (BottomSheetMethods & BottomSheetVariables) | null
+  | (BottomSheetMethods & BottomSheetVariables & BottomSheetGestureVariables)
+  | null
 >(null);
 
 export const BottomSheetProvider = BottomSheetContext.Provider;
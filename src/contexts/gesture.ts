@@ -1,13 +1,29 @@
 import { createContext } from 'react';
-import type { Gesture } from 'react-native-gesture-handler/lib/typescript/handlers/gestures/gesture';
+import type { GestureType } from 'react-native-gesture-handler';
 import type { GestureHandlersHookType } from '../types';
 
 export interface BottomSheetGestureHandlersContextType {
   contentPanGestureHandler: ReturnType<GestureHandlersHookType>;
   handlePanGestureHandler: ReturnType<GestureHandlersHookType>;
+  /**
+   * Pan gestures of the nested sheets, which the sheet
+   * content gesture waits for to fail.
+   */
+  nestedGestures: GestureType[];
+  /**
+   * Register a nested sheet pan gesture, to defer the sheet
+   * content gesture while the nested sheet is being dragged.
+   */
+  registerNestedGesture: (gesture: GestureType) => () => void;
+  /**
+   * The parent sheet gesture handlers, if the sheet is nested.
+   */
+  parentGestureHandlers: BottomSheetGestureHandlersContextType | null;
 }
 
 export const BottomSheetGestureHandlersContext =
   createContext<BottomSheetGestureHandlersContextType | null>(null);
 
-export const BottomSheetDraggableContext = createContext<Gesture | null>(null);
+export const BottomSheetDraggableContext = createContext<GestureType | null>(
+  null
+);
@@ -12,4 +12,5 @@ export {
   BottomSheetModalInternalContext,
   BottomSheetModalInternalProvider,
 } from './modal/internal';
+export type { BottomSheetModalContextType } from './modal/external';
 export type { BottomSheetModalInternalContextType } from './modal/internal';
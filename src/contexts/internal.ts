@@ -1,4 +1,5 @@
 import { type RefObject, createContext } from 'react';
+import type { TextInput } from 'react-native';
 import type { State } from 'react-native-gesture-handler';
 import type { SharedValue } from 'react-native-reanimated';
 import type {
@@ -7,13 +8,23 @@ import type {
   BottomSheetProps,
 } from '../components/bottomSheet/types';
 import type {
+  ANIMATION_SOURCE,
   ANIMATION_STATE,
+  DRAG_DIRECTION,
   KEYBOARD_STATE,
   SCROLLABLE_STATE,
   SCROLLABLE_TYPE,
   SHEET_STATE,
 } from '../constants';
-import type { Scrollable, ScrollableRef } from '../types';
+import type {
+  BottomSheetEvent,
+  BottomSheetEventListener,
+  KeyboardPolicy,
+  RegisteredScrollable,
+  Scrollable,
+  ScrollableRef,
+  SnapPointConfig,
+} from '../types';
 
 export interface BottomSheetInternalContextType
   extends Partial<BottomSheetGestureProps>,
@@ -21,11 +32,15 @@ export interface BottomSheetInternalContextType
       Pick<
         BottomSheetProps,
         | 'enableContentPanningGesture'
+        | 'enableAxisLocking'
+        | 'axisLockingSlop'
         | 'enableOverDrag'
         | 'enablePanDownToClose'
         | 'enableDynamicSizing'
         | 'enableBlurKeyboardOnGesture'
         | 'overDragResistanceFactor'
+        | 'edge'
+        | 'snapStrategy'
       >
     > {
   // animated states
@@ -35,32 +50,46 @@ export interface BottomSheetInternalContextType
   animatedKeyboardState: SharedValue<KEYBOARD_STATE>;
   animatedContentGestureState: SharedValue<State>;
   animatedHandleGestureState: SharedValue<State>;
+  animatedDragDirection: SharedValue<DRAG_DIRECTION>;
 
   // animated values
   animatedSnapPoints: SharedValue<number[]>;
+  animatedSnapPointConfigs: SharedValue<Array<SnapPointConfig | undefined>>;
   animatedPosition: SharedValue<number>;
   animatedIndex: SharedValue<number>;
+  animatedCurrentIndex: SharedValue<number>;
+  animatedVelocity: SharedValue<number>;
   animatedContainerHeight: SharedValue<number>;
+  animatedContainerCrossSize: SharedValue<number>;
   animatedContentHeight: SharedValue<number>;
   animatedHighestSnapPoint: SharedValue<number>;
   animatedClosedPosition: SharedValue<number>;
   animatedFooterHeight: SharedValue<number>;
   animatedHandleHeight: SharedValue<number>;
+  animatedHeaderHeight: SharedValue<number>;
   animatedKeyboardHeight: SharedValue<number>;
   animatedKeyboardHeightInContainer: SharedValue<number>;
   animatedScrollableType: SharedValue<SCROLLABLE_TYPE>;
   animatedScrollableContentOffsetY: SharedValue<number>;
   animatedScrollableOverrideState: SharedValue<SCROLLABLE_STATE>;
   isScrollableRefreshable: SharedValue<boolean>;
+  animatedActiveScrollableId: SharedValue<string | null>;
   isContentHeightFixed: SharedValue<boolean>;
   isInTemporaryPosition: SharedValue<boolean>;
   shouldHandleKeyboardEvents: SharedValue<boolean>;
+  keyboardPolicy: SharedValue<KeyboardPolicy | null>;
 
   // methods
-  stopAnimation: () => void;
+  stopAnimation: (source?: ANIMATION_SOURCE) => void;
   animateToPosition: AnimateToPositionType;
+  emitEvent: (event: BottomSheetEvent) => void;
+  subscribeToEvents: (listener: BottomSheetEventListener) => () => void;
   setScrollableRef: (ref: ScrollableRef) => void;
   removeScrollableRef: (ref: RefObject<Scrollable>) => void;
+  registerScrollable: (scrollable: RegisteredScrollable) => void;
+  unregisterScrollable: (id: string, ref: RefObject<Scrollable>) => void;
+  setFocusedInputRef: (ref: RefObject<TextInput>) => void;
+  removeFocusedInputRef: (ref: RefObject<TextInput>) => void;
 }
 
 export const BottomSheetInternalContext =
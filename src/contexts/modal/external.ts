@@ -1,6 +1,16 @@
 import { createContext } from 'react';
+import type {
+  BottomSheetModalParamList,
+  BottomSheetModalPresentArgs,
+} from '../../types';
 
-export interface BottomSheetModalContextType {
+export interface BottomSheetModalContextType<
+  ParamList extends BottomSheetModalParamList = BottomSheetModalParamList,
+> {
+  present: <Name extends Extract<keyof ParamList, string>>(
+    name: Name,
+    ...args: BottomSheetModalPresentArgs<ParamList, Name>
+  ) => boolean;
   dismiss: (key?: string) => boolean;
   dismissAll: () => void;
 }
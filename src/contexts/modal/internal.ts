@@ -5,17 +5,32 @@ import type {
   BottomSheetModalPrivateMethods,
   BottomSheetModalStackBehavior,
 } from '../../components/bottomSheetModal';
+import type { BottomSheetModalStackItem } from '../../components/bottomSheetModalProvider';
+import type { BottomSheetModalMethods } from '../../types';
 
 export interface BottomSheetModalInternalContextType {
   containerHeight: SharedValue<number>;
+  containerWidth: SharedValue<number>;
   containerOffset: SharedValue<Required<Insets>>;
   mountSheet: (
     key: string,
     ref: RefObject<BottomSheetModalPrivateMethods>,
-    stackBehavior: BottomSheetModalStackBehavior
+    stackBehavior: BottomSheetModalStackBehavior,
+    name?: string
   ) => void;
   unmountSheet: (key: string) => void;
   willUnmountSheet: (key: string) => void;
+  updateSheetIndex: (key: string, index: number) => void;
+  subscribeToStack: (listener: () => void) => () => void;
+  getStack: () => BottomSheetModalStackItem[];
+  registerSheet: (
+    name: string,
+    ref: RefObject<BottomSheetModalMethods>
+  ) => void;
+  unregisterSheet: (
+    name: string,
+    ref: RefObject<BottomSheetModalMethods>
+  ) => void;
 }
 
 export const BottomSheetModalInternalContext =
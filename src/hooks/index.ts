@@ -1,9 +1,20 @@
 export { useBottomSheet } from './useBottomSheet';
 export { useBottomSheetInternal } from './useBottomSheetInternal';
+export { useBottomSheetEvents } from './useBottomSheetEvents';
+export { useBottomSheetAnimatedValues } from './useBottomSheetAnimatedValues';
+export {
+  useBottomSheetAnimatedProgress,
+  useBottomSheetClosedDistance,
+  useBottomSheetOvershoot,
+  useBottomSheetDragVelocity,
+} from './useBottomSheetAnimatedProgress';
 
 // modal
 export { useBottomSheetModal } from './useBottomSheetModal';
 export { useBottomSheetModalInternal } from './useBottomSheetModalInternal';
+export { useBottomSheetModalStack } from './useBottomSheetModalStack';
+export { useModalDismissEvents } from './useModalDismissEvents';
+export { useKeyboardNavigationEvents } from './useKeyboardNavigationEvents';
 
 // scrollable
 export { useScrollable } from './useScrollable';
@@ -13,11 +24,15 @@ export { useScrollHandler } from './useScrollHandler';
 // gestures
 export { useGestureHandler } from './useGestureHandler';
 export { useGestureEventsHandlersDefault } from './useGestureEventsHandlersDefault';
+export { useGestureAxisLocking } from './useGestureAxisLocking';
+export { useHandlePanGesture } from './useHandlePanGesture';
 
 // utilities
 export { useKeyboard } from './useKeyboard';
 export { useStableCallback } from './useStableCallback';
 export { usePropsValidator } from './usePropsValidator';
 export { useAnimatedSnapPoints } from './useAnimatedSnapPoints';
+export { useAnimatedVisibleContentBottom } from './useAnimatedVisibleContentBottom';
+export { useFooterHeightContribution } from './useFooterHeightContribution';
 export { useReactiveSharedValue } from './useReactiveSharedValue';
 export { useBottomSheetGestureHandlers } from './useBottomSheetGestureHandlers';
@@ -0,0 +1,33 @@
+import {
+  KeyboardState,
+  useAnimatedKeyboard,
+  useDerivedValue,
+} from 'react-native-reanimated';
+import { KEYBOARD_STATE } from '../constants';
+import type { KeyboardProviderState } from '../types';
+
+/**
+ * Provides the keyboard state from Reanimated `useAnimatedKeyboard`,
+ * which updates the keyboard height on every frame.
+ */
+export const useAnimatedKeyboardProvider = (): KeyboardProviderState => {
+  const { state: keyboardState, height } = useAnimatedKeyboard();
+  const state = useDerivedValue(() => {
+    switch (keyboardState.value) {
+      case KeyboardState.OPENING:
+      case KeyboardState.OPEN:
+        return KEYBOARD_STATE.SHOWN;
+      case KeyboardState.CLOSING:
+      case KeyboardState.CLOSED:
+        return KEYBOARD_STATE.HIDDEN;
+      default:
+        return KEYBOARD_STATE.UNDETERMINED;
+    }
+  }, [keyboardState]);
+
+  return {
+    state,
+    height,
+    isFrameAccurate: true,
+  };
+};
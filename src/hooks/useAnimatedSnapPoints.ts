@@ -4,12 +4,9 @@ import {
   useSharedValue,
 } from 'react-native-reanimated';
 import type { BottomSheetProps } from '../components/bottomSheet';
-import {
-  INITIAL_CONTAINER_HEIGHT,
-  INITIAL_HANDLE_HEIGHT,
-  INITIAL_SNAP_POINT,
-} from '../components/bottomSheet/constants';
-import { normalizeSnapPoint } from '../utilities';
+import { INITIAL_SNAP_POINT } from '../components/bottomSheet/constants';
+import type { SnapPointConfig, SnapPointNormalizationParams } from '../types';
+import { computeSnapPoints, hasDynamicSnapPoints } from '../utilities';
 
 /**
  * Convert percentage snap points to pixels in screen and calculate
@@ -18,29 +15,59 @@ import { normalizeSnapPoint } from '../utilities';
  * @param containerHeight BottomSheetContainer height.
  * @param contentHeight content size.
  * @param handleHeight handle size.
+ * @param headerHeight header size.
  * @param footerHeight footer size.
+ * @param keyboardHeight keyboard height.
+ * @param topInset top safe area inset.
+ * @param bottomInset bottom safe area inset.
  * @param enableDynamicSizing
  * @param maxDynamicContentSize
- * @returns {SharedValue<number[]>}
+ * @returns {[SharedValue<number[]>, SharedValue<number>, SharedValue<boolean>, SharedValue<Array<SnapPointConfig | undefined>>]}
  */
 export const useAnimatedSnapPoints = (
   snapPoints: BottomSheetProps['snapPoints'],
   containerHeight: SharedValue<number>,
   contentHeight: SharedValue<number>,
   handleHeight: SharedValue<number>,
+  headerHeight: SharedValue<number>,
   footerHeight: SharedValue<number>,
+  keyboardHeight: SharedValue<number>,
+  topInset: number,
+  bottomInset: number,
   enableDynamicSizing: BottomSheetProps['enableDynamicSizing'],
   maxDynamicContentSize: BottomSheetProps['maxDynamicContentSize']
-): [SharedValue<number[]>, SharedValue<number>, SharedValue<boolean>] => {
+): [
+  SharedValue<number[]>,
+  SharedValue<number>,
+  SharedValue<boolean>,
+  SharedValue<Array<SnapPointConfig | undefined>>,
+] => {
   const dynamicSnapPointIndex = useSharedValue<number>(-1);
-  const normalizedSnapPoints = useDerivedValue(() => {
-    // early exit, if container layout is not ready
-    const isContainerLayoutReady =
-      containerHeight.value !== INITIAL_CONTAINER_HEIGHT;
-    if (!isContainerLayoutReady) {
-      return [INITIAL_SNAP_POINT];
-    }
-
+  const normalizationParams = useDerivedValue<SnapPointNormalizationParams>(
+    () => ({
+      containerHeight: containerHeight.value,
+      contentHeight: contentHeight.value,
+      handleHeight: handleHeight.value,
+      headerHeight: headerHeight.value,
+      footerHeight: footerHeight.value,
+      keyboardHeight: keyboardHeight.value,
+      topInset,
+      bottomInset,
+      maxDynamicContentSize,
+    }),
+    [
+      containerHeight,
+      contentHeight,
+      handleHeight,
+      headerHeight,
+      footerHeight,
+      keyboardHeight,
+      topInset,
+      bottomInset,
+      maxDynamicContentSize,
+    ]
+  );
+  const snapPointsLayout = useDerivedValue(() => {
     // extract snap points from provided props
     const _snapPoints = snapPoints
       ? 'value' in snapPoints
@@ -48,70 +75,25 @@ export const useAnimatedSnapPoints = (
         : snapPoints
       : [];
 
-    // normalized all provided snap points, converting percentage
-    // values into absolute values.
-    let _normalizedSnapPoints = _snapPoints.map(snapPoint =>
-      normalizeSnapPoint(snapPoint, containerHeight.value)
-    ) as number[];
-
-    // return normalized snap points if dynamic sizing is not enabled
-    if (!enableDynamicSizing) {
-      return _normalizedSnapPoints;
-    }
-
-    // early exit, if handle height is not calculated yet.
-    if (handleHeight.value === INITIAL_HANDLE_HEIGHT) {
-      return [INITIAL_SNAP_POINT];
-    }
-
-    // early exit, if content height is not calculated yet.
-    if (contentHeight.value === INITIAL_CONTAINER_HEIGHT) {
-      return [INITIAL_SNAP_POINT];
-    }
-
-    // calculate a new snap point based on content height.
-    const dynamicSnapPoint =
-      containerHeight.value -
-      Math.min(
-        contentHeight.value + handleHeight.value + footerHeight.value,
-        maxDynamicContentSize !== undefined
-          ? maxDynamicContentSize
-          : containerHeight.value
-      );
+    return computeSnapPoints({
+      ...normalizationParams.value,
+      snapPoints: _snapPoints,
+      enableDynamicSizing,
+    });
+  }, [snapPoints, normalizationParams, enableDynamicSizing]);
+  const normalizedSnapPoints = useDerivedValue(() => {
+    const { snapPoints: _normalizedSnapPoints, dynamicSnapPointIndex: index } =
+      snapPointsLayout.value;
 
-    // push dynamic snap point into the normalized snap points,
-    // only if it does not exists in the provided list already.
-    if (!_normalizedSnapPoints.includes(dynamicSnapPoint)) {
-      _normalizedSnapPoints.push(dynamicSnapPoint);
+    // locate the dynamic snap point index, once the layout is ready.
+    if (_normalizedSnapPoints[0] !== INITIAL_SNAP_POINT && index !== -1) {
+      dynamicSnapPointIndex.value = index;
     }
 
-    // sort all snap points.
-    _normalizedSnapPoints = _normalizedSnapPoints.sort((a, b) => b - a);
-
-    // locate the dynamic snap point index.
-    dynamicSnapPointIndex.value =
-      _normalizedSnapPoints.indexOf(dynamicSnapPoint);
-
     return _normalizedSnapPoints;
-  }, [
-    snapPoints,
-    containerHeight,
-    handleHeight,
-    contentHeight,
-    footerHeight,
-    enableDynamicSizing,
-    maxDynamicContentSize,
-    dynamicSnapPointIndex,
-  ]);
+  }, [snapPointsLayout, dynamicSnapPointIndex]);
 
   const hasDynamicSnapPoint = useDerivedValue(() => {
-    /**
-     * if dynamic sizing is enabled, then we return true.
-     */
-    if (enableDynamicSizing) {
-      return true;
-    }
-
     // extract snap points from provided props
     const _snapPoints = snapPoints
       ? 'value' in snapPoints
@@ -119,18 +101,22 @@ export const useAnimatedSnapPoints = (
         : snapPoints
       : [];
 
-    /**
-     * if any of the snap points provided is a string, then we return true.
-     */
-    if (
-      _snapPoints.length &&
-      _snapPoints.find(snapPoint => typeof snapPoint === 'string')
-    ) {
-      return true;
-    }
+    return hasDynamicSnapPoints(_snapPoints, enableDynamicSizing);
+  }, [snapPoints, enableDynamicSizing]);
 
-    return false;
-  });
+  /**
+   * the provided snap point configs, ordered by the normalized snap points
+   * indices, where plain values and the dynamic snap point have no config.
+   */
+  const snapPointConfigs = useDerivedValue(
+    () => snapPointsLayout.value.snapPointConfigs,
+    [snapPointsLayout]
+  );
 
-  return [normalizedSnapPoints, dynamicSnapPointIndex, hasDynamicSnapPoint];
+  return [
+    normalizedSnapPoints,
+    dynamicSnapPointIndex,
+    hasDynamicSnapPoint,
+    snapPointConfigs,
+  ];
 };
@@ -0,0 +1,65 @@
+import { useDerivedValue } from 'react-native-reanimated';
+import { KEYBOARD_STATE, SHEET_EDGE } from '../constants';
+import { useBottomSheetInternal } from './useBottomSheetInternal';
+
+/**
+ * The bottom of the sheet visible content area, above the keyboard,
+ * in the content coordinates. It positions the footer and overlays.
+ */
+export const useAnimatedVisibleContentBottom = () => {
+  const {
+    edge,
+    animatedContainerHeight,
+    animatedContainerCrossSize,
+    animatedHighestSnapPoint,
+    animatedHandleHeight,
+    animatedHeaderHeight,
+    animatedPosition,
+    animatedKeyboardState,
+    animatedKeyboardHeightInContainer,
+  } = useBottomSheetInternal();
+
+  return useDerivedValue(() => {
+    /**
+     * on horizontal edges, the content bottom is the bottom of the sheet.
+     */
+    if (edge === SHEET_EDGE.left || edge === SHEET_EDGE.right) {
+      return animatedContainerCrossSize.value;
+    }
+
+    /**
+     * on the top edge, the content bottom is always visible.
+     */
+    if (edge === SHEET_EDGE.top) {
+      return (
+        animatedContainerHeight.value * 2 -
+        animatedHighestSnapPoint.value -
+        animatedHandleHeight.value -
+        animatedHeaderHeight.value
+      );
+    }
+
+    let visibleBottom = Math.max(
+      0,
+      animatedContainerHeight.value - animatedPosition.value
+    );
+
+    if (animatedKeyboardState.value === KEYBOARD_STATE.SHOWN) {
+      visibleBottom = visibleBottom - animatedKeyboardHeightInContainer.value;
+    }
+
+    return (
+      visibleBottom - animatedHandleHeight.value - animatedHeaderHeight.value
+    );
+  }, [
+    edge,
+    animatedKeyboardHeightInContainer,
+    animatedContainerHeight,
+    animatedContainerCrossSize,
+    animatedHighestSnapPoint,
+    animatedPosition,
+    animatedKeyboardState,
+    animatedHandleHeight,
+    animatedHeaderHeight,
+  ]);
+};
@@ -0,0 +1,97 @@
+import type { RefObject } from 'react';
+import { useDerivedValue } from 'react-native-reanimated';
+import type { BottomSheetMethods } from '../types';
+import {
+  computeClosedDistance,
+  computeOvershoot,
+  computeSheetProgress,
+} from '../utilities/sheetProgress';
+import { useBottomSheetAnimatedValues } from './useBottomSheetAnimatedValues';
+
+/**
+ * Normalized sheet progress between two snap points, it is `0` at
+ * `fromIndex` and `1` at `toIndex`, provide `-1` for the closed position.
+ *
+ * @param fromIndex the snap point index where the progress starts.
+ * @param toIndex the snap point index where the progress ends.
+ * @param sheetRef the sheet or modal ref, when used outside of the sheet.
+ */
+export const useBottomSheetAnimatedProgress = (
+  fromIndex: number,
+  toIndex: number,
+  sheetRef?: RefObject<BottomSheetMethods>
+) => {
+  const { animatedPosition, animatedSnapPoints, animatedClosedPosition } =
+    useBottomSheetAnimatedValues(sheetRef);
+
+  return useDerivedValue(
+    () =>
+      computeSheetProgress({
+        position: animatedPosition.value,
+        snapPoints: animatedSnapPoints.value,
+        closedPosition: animatedClosedPosition.value,
+        fromIndex,
+        toIndex,
+      }),
+    [
+      fromIndex,
+      toIndex,
+      animatedPosition,
+      animatedSnapPoints,
+      animatedClosedPosition,
+    ]
+  );
+};
+
+/**
+ * The sheet distance to its closed position, in pixels.
+ *
+ * @param sheetRef the sheet or modal ref, when used outside of the sheet.
+ */
+export const useBottomSheetClosedDistance = (
+  sheetRef?: RefObject<BottomSheetMethods>
+) => {
+  const { animatedPosition, animatedClosedPosition } =
+    useBottomSheetAnimatedValues(sheetRef);
+
+  return useDerivedValue(
+    () =>
+      computeClosedDistance(
+        animatedPosition.value,
+        animatedClosedPosition.value
+      ),
+    [animatedPosition, animatedClosedPosition]
+  );
+};
+
+/**
+ * The distance the sheet is over-dragged beyond its highest
+ * snap point, in pixels.
+ *
+ * @param sheetRef the sheet or modal ref, when used outside of the sheet.
+ */
+export const useBottomSheetOvershoot = (
+  sheetRef?: RefObject<BottomSheetMethods>
+) => {
+  const { animatedPosition, animatedHighestSnapPoint } =
+    useBottomSheetAnimatedValues(sheetRef);
+
+  return useDerivedValue(
+    () =>
+      computeOvershoot(animatedPosition.value, animatedHighestSnapPoint.value),
+    [animatedPosition, animatedHighestSnapPoint]
+  );
+};
+
+/**
+ * The sheet drag velocity, in pixels per second, positive
+ * towards closing. It is `0` when the sheet is not dragged.
+ *
+ * @param sheetRef the sheet or modal ref, when used outside of the sheet.
+ */
+export const useBottomSheetDragVelocity = (
+  sheetRef?: RefObject<BottomSheetMethods>
+) => {
+  const { animatedVelocity } = useBottomSheetAnimatedValues(sheetRef);
+  return animatedVelocity;
+};
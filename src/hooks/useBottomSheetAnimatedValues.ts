@@ -0,0 +1,117 @@
+import { type RefObject, useEffect, useMemo, useRef, useState } from 'react';
+import { useSharedValue } from 'react-native-reanimated';
+import { INITIAL_POSITION } from '../components/bottomSheet/constants';
+import { DRAG_DIRECTION } from '../constants';
+import type { BottomSheetAnimatedValues, BottomSheetMethods } from '../types';
+import { useBottomSheetInternal } from './useBottomSheetInternal';
+
+/**
+ * Provides the sheet animated values, from the parent sheet or
+ * from the provided sheet ref when used outside of it.
+ *
+ * ⚠️ With a ref, a sheet mounted after the calling component is picked
+ * up on its next render, the values of a closed sheet are returned while
+ * the sheet content is not mounted, e.g. a dismissed modal.
+ *
+ * @param sheetRef the sheet or modal ref, when used outside of the sheet.
+ */
+export const useBottomSheetAnimatedValues = (
+  sheetRef?: RefObject<BottomSheetMethods>
+): BottomSheetAnimatedValues => {
+  //#region hooks
+  const context = useBottomSheetInternal(true);
+  //#endregion
+
+  //#region variables
+  const [refAnimatedValues, setRefAnimatedValues] = useState<
+    BottomSheetAnimatedValues | undefined
+  >(undefined);
+  const fallbackAnimatedIndex = useSharedValue(-1);
+  const fallbackAnimatedPosition = useSharedValue(INITIAL_POSITION);
+  const fallbackAnimatedVelocity = useSharedValue(0);
+  const fallbackAnimatedDragDirection = useSharedValue<DRAG_DIRECTION>(
+    DRAG_DIRECTION.NONE
+  );
+  const fallbackAnimatedSnapPoints = useSharedValue<number[]>([]);
+  const fallbackAnimatedClosedPosition = useSharedValue(INITIAL_POSITION);
+  const fallbackAnimatedHighestSnapPoint = useSharedValue(INITIAL_POSITION);
+  //#endregion
+
+  //#region refs
+  const subscribedSheetRef = useRef<BottomSheetMethods | null>(null);
+  const unsubscribeRef = useRef<(() => void) | undefined>(undefined);
+  //#endregion
+
+  //#region effects
+  /**
+   * subscribe to the sheet animated values, which are updated once
+   * the sheet mounts or unmounts, and re-subscribe after each render
+   * if the ref got attached to another sheet, like a late mounted one.
+   */
+  useEffect(() => {
+    const sheet = sheetRef?.current ?? null;
+    if (sheet === subscribedSheetRef.current) {
+      return;
+    }
+
+    unsubscribeRef.current?.();
+    subscribedSheetRef.current = sheet;
+    unsubscribeRef.current =
+      sheet?.subscribeToAnimatedValues?.(setRefAnimatedValues);
+
+    if (!unsubscribeRef.current) {
+      setRefAnimatedValues(undefined);
+    }
+  });
+
+  /**
+   * unsubscribe from the sheet animated values, on unmount.
+   */
+  useEffect(() => {
+    return () => {
+      unsubscribeRef.current?.();
+      unsubscribeRef.current = undefined;
+      subscribedSheetRef.current = null;
+    };
+  }, []);
+  //#endregion
+
+  return useMemo(() => {
+    if (sheetRef && refAnimatedValues) {
+      return refAnimatedValues;
+    }
+
+    if (!sheetRef && context) {
+      return {
+        animatedIndex: context.animatedIndex,
+        animatedPosition: context.animatedPosition,
+        animatedVelocity: context.animatedVelocity,
+        animatedDragDirection: context.animatedDragDirection,
+        animatedSnapPoints: context.animatedSnapPoints,
+        animatedClosedPosition: context.animatedClosedPosition,
+        animatedHighestSnapPoint: context.animatedHighestSnapPoint,
+      };
+    }
+
+    return {
+      animatedIndex: fallbackAnimatedIndex,
+      animatedPosition: fallbackAnimatedPosition,
+      animatedVelocity: fallbackAnimatedVelocity,
+      animatedDragDirection: fallbackAnimatedDragDirection,
+      animatedSnapPoints: fallbackAnimatedSnapPoints,
+      animatedClosedPosition: fallbackAnimatedClosedPosition,
+      animatedHighestSnapPoint: fallbackAnimatedHighestSnapPoint,
+    };
+  }, [
+    sheetRef,
+    refAnimatedValues,
+    context,
+    fallbackAnimatedIndex,
+    fallbackAnimatedPosition,
+    fallbackAnimatedVelocity,
+    fallbackAnimatedDragDirection,
+    fallbackAnimatedSnapPoints,
+    fallbackAnimatedClosedPosition,
+    fallbackAnimatedHighestSnapPoint,
+  ]);
+};
@@ -0,0 +1,20 @@
+import { useEffect } from 'react';
+import type { BottomSheetEvent, BottomSheetEventListener } from '../types';
+import { useBottomSheetInternal } from './useBottomSheetInternal';
+import { useStableCallback } from './useStableCallback';
+
+/**
+ * Subscribe to the lifecycle events of the parent sheet.
+ *
+ * @param listener callback to be called on every sheet event.
+ */
+export const useBottomSheetEvents = (listener: BottomSheetEventListener) => {
+  const { subscribeToEvents } = useBottomSheetInternal();
+  const handleOnEvent = useStableCallback((event: BottomSheetEvent) =>
+    listener(event)
+  );
+
+  useEffect(() => {
+    return subscribeToEvents(handleOnEvent);
+  }, [subscribeToEvents, handleOnEvent]);
+};
@@ -1,12 +1,18 @@
 import { useContext } from 'react';
-import { BottomSheetModalContext } from '../contexts';
+import {
+  BottomSheetModalContext,
+  type BottomSheetModalContextType,
+} from '../contexts';
+import type { BottomSheetModalParamList } from '../types';
 
-export const useBottomSheetModal = () => {
+export const useBottomSheetModal = <
+  ParamList extends BottomSheetModalParamList = BottomSheetModalParamList,
+>() => {
   const context = useContext(BottomSheetModalContext);
 
   if (context === null) {
     throw "'BottomSheetModalContext' cannot be null!";
   }
 
-  return context;
+  return context as unknown as BottomSheetModalContextType<ParamList>;
 };
@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { useBottomSheetModalInternal } from './useBottomSheetModalInternal';
+
+/**
+ * Returns the mounted modals stack, ordered from the bottom-most
+ * modal to the top-most one.
+ */
+export const useBottomSheetModalStack = () => {
+  const { subscribeToStack, getStack } = useBottomSheetModalInternal();
+  return useSyncExternalStore(subscribeToStack, getStack, getStack);
+};
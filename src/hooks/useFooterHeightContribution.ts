@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useBottomSheetInternal } from './useBottomSheetInternal';
+
+/**
+ * Contributes a measured height to `animatedFooterHeight`, which is shared
+ * by the footer and the overlays anchored to it, and releases it on unmount.
+ */
+export const useFooterHeightContribution = () => {
+  const { animatedFooterHeight } = useBottomSheetInternal();
+  const contributedHeightRef = useRef(0);
+
+  const setFooterHeight = useCallback(
+    (height: number) => {
+      animatedFooterHeight.value =
+        animatedFooterHeight.value - contributedHeightRef.current + height;
+      contributedHeightRef.current = height;
+    },
+    [animatedFooterHeight]
+  );
+
+  useEffect(() => {
+    return () => {
+      animatedFooterHeight.value = Math.max(
+        0,
+        animatedFooterHeight.value - contributedHeightRef.current
+      );
+      contributedHeightRef.current = 0;
+    };
+  }, [animatedFooterHeight]);
+
+  return setFooterHeight;
+};
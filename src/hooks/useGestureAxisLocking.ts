@@ -0,0 +1,118 @@
+import { useCallback } from 'react';
+import type {
+  GestureStateManager,
+  GestureTouchEvent,
+  PanGesture,
+} from 'react-native-gesture-handler';
+import { useSharedValue, useWorkletCallback } from 'react-native-reanimated';
+import { SHEET_EDGE } from '../constants';
+import { useBottomSheetInternal } from './useBottomSheetInternal';
+
+type AxisLockingContextType = {
+  x: number;
+  y: number;
+  isDecided: boolean;
+};
+
+/**
+ * Decides the sheet pan gestures ownership, once the touch moves past
+ * `axisLockingSlop`, based on its dominant direction.
+ */
+export const useGestureAxisLocking = () => {
+  //#region hooks
+  const {
+    edge,
+    enableAxisLocking,
+    axisLockingSlop,
+    activeOffsetX,
+    activeOffsetY,
+    failOffsetX,
+    failOffsetY,
+  } = useBottomSheetInternal();
+  //#endregion
+
+  //#region variables
+  const context = useSharedValue<AxisLockingContextType>({
+    x: 0,
+    y: 0,
+    isDecided: false,
+  });
+
+  /**
+   * the provided active & fail offsets take over the axis locking.
+   */
+  const isAxisLockingEnabled =
+    enableAxisLocking &&
+    activeOffsetX === undefined &&
+    activeOffsetY === undefined &&
+    failOffsetX === undefined &&
+    failOffsetY === undefined;
+  //#endregion
+
+  //#region worklets
+  const handleOnTouchesDown = useWorkletCallback(
+    (event: GestureTouchEvent) => {
+      const touch = event.allTouches[0];
+      if (!touch) {
+        return;
+      }
+
+      context.value = {
+        x: touch.absoluteX,
+        y: touch.absoluteY,
+        isDecided: false,
+      };
+    },
+    [context]
+  );
+  const handleOnTouchesMove = useWorkletCallback(
+    (event: GestureTouchEvent, stateManager: GestureStateManager) => {
+      const touch = event.allTouches[0];
+      if (!touch || context.value.isDecided) {
+        return;
+      }
+
+      const distanceX = Math.abs(touch.absoluteX - context.value.x);
+      const distanceY = Math.abs(touch.absoluteY - context.value.y);
+      if (Math.max(distanceX, distanceY) < axisLockingSlop) {
+        return;
+      }
+
+      const isHorizontalEdge =
+        edge === SHEET_EDGE.left || edge === SHEET_EDGE.right;
+      const axisDistance = isHorizontalEdge ? distanceX : distanceY;
+      const crossAxisDistance = isHorizontalEdge ? distanceY : distanceX;
+
+      context.value = {
+        ...context.value,
+        isDecided: true,
+      };
+
+      if (axisDistance >= crossAxisDistance) {
+        stateManager.activate();
+      } else {
+        stateManager.fail();
+      }
+    },
+    [context, edge, axisLockingSlop]
+  );
+  //#endregion
+
+  //#region callbacks
+  /**
+   * Applies the axis locking to the provided pan gesture, if enabled.
+   */
+  const applyAxisLocking = useCallback(
+    (gesture: PanGesture) =>
+      isAxisLockingEnabled
+        ? gesture
+            .manualActivation(true)
+            .onTouchesDown(handleOnTouchesDown)
+            .onTouchesMove(handleOnTouchesMove)
+        : gesture,
+    [isAxisLockingEnabled, handleOnTouchesDown, handleOnTouchesMove]
+  );
+  //#endregion
+
+  return applyAxisLocking;
+};
@@ -6,9 +6,12 @@ import {
 } from 'react-native-reanimated';
 import {
   ANIMATION_SOURCE,
+  DRAG_DIRECTION,
   GESTURE_SOURCE,
   KEYBOARD_STATE,
+  SCROLLABLE_STATE,
   SCROLLABLE_TYPE,
+  SHEET_EDGE,
   WINDOW_HEIGHT,
 } from '../constants';
 import type {
@@ -16,6 +19,7 @@ import type {
   GestureEventsHandlersHookType,
 } from '../types';
 import { clamp } from '../utilities/clamp';
+import { getDragDirection } from '../utilities/getDragDirection';
 import { snapPoint } from '../utilities/snapPoint';
 import { useBottomSheetInternal } from './useBottomSheetInternal';
 
@@ -54,6 +58,11 @@ export const useGestureEventsHandlersDefault: GestureEventsHandlersHookType =
       animatedHighestSnapPoint,
       animatedClosedPosition,
       animatedScrollableContentOffsetY,
+      animatedScrollableState,
+      animatedVelocity,
+      animatedDragDirection,
+      edge,
+      snapStrategy,
       enableOverDrag,
       enablePanDownToClose,
       overDragResistanceFactor,
@@ -73,7 +82,11 @@ export const useGestureEventsHandlersDefault: GestureEventsHandlersHookType =
     const handleOnStart: GestureEventHandlerCallbackType = useWorkletCallback(
       function handleOnStart(__, _) {
         // cancel current animation
-        stopAnimation();
+        stopAnimation(ANIMATION_SOURCE.GESTURE);
+
+        // reset the drag velocity & direction
+        animatedVelocity.value = 0;
+        animatedDragDirection.value = DRAG_DIRECTION.NONE;
 
         let initialKeyboardState = animatedKeyboardState.value;
         // blur the keyboard when user start dragging the bottom sheet
@@ -95,8 +108,12 @@ export const useGestureEventsHandlersDefault: GestureEventsHandlersHookType =
         /**
          * if the scrollable content is scrolled, then
          * we lock the position.
+         * scrollables hand-off is only supported on the bottom edge.
          */
-        if (animatedScrollableContentOffsetY.value > 0) {
+        if (
+          edge === SHEET_EDGE.bottom &&
+          animatedScrollableContentOffsetY.value > 0
+        ) {
           context.value = {
             ...context.value,
             isScrollablePositionLocked: true,
@@ -105,16 +122,31 @@ export const useGestureEventsHandlersDefault: GestureEventsHandlersHookType =
       },
       [
         stopAnimation,
+        animatedVelocity,
+        animatedDragDirection,
         enableBlurKeyboardOnGesture,
         animatedPosition,
         animatedKeyboardState,
         animatedScrollableContentOffsetY,
+        edge,
       ]
     );
     const handleOnChange: GestureEventHandlerCallbackType = useWorkletCallback(
-      function handleOnChange(source, { translationY }) {
+      function handleOnChange(source, { translationY, velocityY }) {
         let highestSnapPoint = animatedHighestSnapPoint.value;
 
+        /**
+         * track the drag velocity & direction, unless the gesture
+         * is consumed by the unlocked scrollable.
+         */
+        if (
+          source !== GESTURE_SOURCE.CONTENT ||
+          animatedScrollableState.value !== SCROLLABLE_STATE.UNLOCKED
+        ) {
+          animatedVelocity.value = velocityY;
+          animatedDragDirection.value = getDragDirection(velocityY);
+        }
+
         /**
          * if keyboard is shown, then we set the highest point to the current
          * position which includes the keyboard height.
@@ -160,9 +192,10 @@ export const useGestureEventsHandlersDefault: GestureEventsHandlersHookType =
          * a negative scrollable content offset when the scrollable is not locked.
          */
         const negativeScrollableContentOffset =
-          (context.value.initialPosition === highestSnapPoint &&
+          edge === SHEET_EDGE.bottom &&
+          ((context.value.initialPosition === highestSnapPoint &&
             source === GESTURE_SOURCE.CONTENT) ||
-          !context.value.isScrollablePositionLocked
+            !context.value.isScrollablePositionLocked)
             ? animatedScrollableContentOffsetY.value * -1
             : 0;
 
@@ -265,6 +298,10 @@ export const useGestureEventsHandlersDefault: GestureEventsHandlersHookType =
         animatedPosition,
         animatedScrollableType,
         animatedScrollableContentOffsetY,
+        animatedScrollableState,
+        animatedVelocity,
+        animatedDragDirection,
+        edge,
       ]
     );
     const handleOnEnd: GestureEventHandlerCallbackType = useWorkletCallback(
@@ -354,13 +391,15 @@ export const useGestureEventsHandlersDefault: GestureEventsHandlersHookType =
         }
 
         /**
-         * calculate the destination point, using redash.
+         * calculate the destination point, using the snap strategy.
          */
-        const destinationPoint = snapPoint(
-          translationY + context.value.initialPosition,
-          velocityY,
-          snapPoints
-        );
+        const destinationPoint = snapPoint(snapStrategy, {
+          position: translationY + context.value.initialPosition,
+          initialPosition: context.value.initialPosition,
+          velocity: velocityY,
+          points: snapPoints,
+          snapPoints: animatedSnapPoints.value,
+        });
 
         /**
          * if destination point is the same as the current position,
@@ -371,6 +410,7 @@ export const useGestureEventsHandlersDefault: GestureEventsHandlersHookType =
         }
 
         const wasGestureHandledByScrollView =
+          edge === SHEET_EDGE.bottom &&
           source === GESTURE_SOURCE.CONTENT &&
           animatedScrollableContentOffsetY.value > 0;
         /**
@@ -397,6 +437,8 @@ export const useGestureEventsHandlersDefault: GestureEventsHandlersHookType =
         animatedScrollableType,
         animatedSnapPoints,
         animatedScrollableContentOffsetY,
+        edge,
+        snapStrategy,
         animateToPosition,
       ]
     );
@@ -405,8 +447,10 @@ export const useGestureEventsHandlersDefault: GestureEventsHandlersHookType =
       useWorkletCallback(
         function handleOnFinalize() {
           resetContext(context);
+          animatedVelocity.value = 0;
+          animatedDragDirection.value = DRAG_DIRECTION.NONE;
         },
-        [context]
+        [context, animatedVelocity, animatedDragDirection]
       );
     //#endregion
 
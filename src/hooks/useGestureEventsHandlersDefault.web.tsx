@@ -6,13 +6,17 @@ import {
 } from 'react-native-reanimated';
 import {
   ANIMATION_SOURCE,
+  DRAG_DIRECTION,
   GESTURE_SOURCE,
   KEYBOARD_STATE,
+  SCROLLABLE_STATE,
   SCROLLABLE_TYPE,
+  SHEET_EDGE,
   WINDOW_HEIGHT,
 } from '../constants';
 import type { GestureEventHandlerCallbackType } from '../types';
 import { clamp } from '../utilities/clamp';
+import { getDragDirection } from '../utilities/getDragDirection';
 import { snapPoint } from '../utilities/snapPoint';
 import { useBottomSheetInternal } from './useBottomSheetInternal';
 
@@ -52,6 +56,11 @@ export const useGestureEventsHandlersDefault = () => {
     animatedHighestSnapPoint,
     animatedClosedPosition,
     animatedScrollableContentOffsetY,
+    animatedScrollableState,
+    animatedVelocity,
+    animatedDragDirection,
+    edge,
+    snapStrategy,
     enableOverDrag,
     enablePanDownToClose,
     overDragResistanceFactor,
@@ -70,7 +79,11 @@ export const useGestureEventsHandlersDefault = () => {
   const handleOnStart: GestureEventHandlerCallbackType = useWorkletCallback(
     function handleOnStart(__, { translationY }) {
       // cancel current animation
-      stopAnimation();
+      stopAnimation(ANIMATION_SOURCE.GESTURE);
+
+      // reset the drag velocity & direction
+      animatedVelocity.value = 0;
+      animatedDragDirection.value = DRAG_DIRECTION.NONE;
 
       // store current animated position
       context.value = {
@@ -83,22 +96,41 @@ export const useGestureEventsHandlersDefault = () => {
       /**
        * if the scrollable content is scrolled, then
        * we lock the position.
+       * scrollables hand-off is only supported on the bottom edge.
        */
-      if (animatedScrollableContentOffsetY.value > 0) {
+      if (
+        edge === SHEET_EDGE.bottom &&
+        animatedScrollableContentOffsetY.value > 0
+      ) {
         context.value.isScrollablePositionLocked = true;
       }
     },
     [
       stopAnimation,
+      animatedVelocity,
+      animatedDragDirection,
       animatedPosition,
       animatedKeyboardState,
       animatedScrollableContentOffsetY,
+      edge,
     ]
   );
   const handleOnChange: GestureEventHandlerCallbackType = useWorkletCallback(
-    function handleOnChange(source, { translationY }) {
+    function handleOnChange(source, { translationY, velocityY }) {
       let highestSnapPoint = animatedHighestSnapPoint.value;
 
+      /**
+       * track the drag velocity & direction, unless the gesture
+       * is consumed by the unlocked scrollable.
+       */
+      if (
+        source !== GESTURE_SOURCE.CONTENT ||
+        animatedScrollableState.value !== SCROLLABLE_STATE.UNLOCKED
+      ) {
+        animatedVelocity.value = velocityY;
+        animatedDragDirection.value = getDragDirection(velocityY);
+      }
+
       translationY = translationY - context.value.initialTranslationY;
       /**
        * if keyboard is shown, then we set the highest point to the current
@@ -145,9 +177,10 @@ export const useGestureEventsHandlersDefault = () => {
        * a negative scrollable content offset when the scrollable is not locked.
        */
       const negativeScrollableContentOffset =
-        (context.value.initialPosition === highestSnapPoint &&
+        edge === SHEET_EDGE.bottom &&
+        ((context.value.initialPosition === highestSnapPoint &&
           source === GESTURE_SOURCE.CONTENT) ||
-        !context.value.isScrollablePositionLocked
+          !context.value.isScrollablePositionLocked)
           ? animatedScrollableContentOffsetY.value * -1
           : 0;
 
@@ -247,6 +280,10 @@ export const useGestureEventsHandlersDefault = () => {
       animatedPosition,
       animatedScrollableType,
       animatedScrollableContentOffsetY,
+      animatedScrollableState,
+      animatedVelocity,
+      animatedDragDirection,
+      edge,
     ]
   );
   const handleOnEnd: GestureEventHandlerCallbackType = useWorkletCallback(
@@ -336,13 +373,15 @@ export const useGestureEventsHandlersDefault = () => {
       }
 
       /**
-       * calculate the destination point, using redash.
+       * calculate the destination point, using the snap strategy.
        */
-      const destinationPoint = snapPoint(
-        translationY + context.value.initialPosition,
-        velocityY,
-        snapPoints
-      );
+      const destinationPoint = snapPoint(snapStrategy, {
+        position: translationY + context.value.initialPosition,
+        initialPosition: context.value.initialPosition,
+        velocity: velocityY,
+        points: snapPoints,
+        snapPoints: animatedSnapPoints.value,
+      });
 
       /**
        * if destination point is the same as the current position,
@@ -353,6 +392,7 @@ export const useGestureEventsHandlersDefault = () => {
       }
 
       const wasGestureHandledByScrollView =
+        edge === SHEET_EDGE.bottom &&
         source === GESTURE_SOURCE.CONTENT &&
         animatedScrollableContentOffsetY.value > 0;
       /**
@@ -379,14 +419,18 @@ export const useGestureEventsHandlersDefault = () => {
       animatedScrollableType,
       animatedSnapPoints,
       animatedScrollableContentOffsetY,
+      edge,
+      snapStrategy,
       animateToPosition,
     ]
   );
   const handleOnFinalize: GestureEventHandlerCallbackType = useWorkletCallback(
     function handleOnFinalize() {
       resetContext(context);
+      animatedVelocity.value = 0;
+      animatedDragDirection.value = DRAG_DIRECTION.NONE;
     },
-    [context]
+    [context, animatedVelocity, animatedDragDirection]
   );
   //#endregion
 
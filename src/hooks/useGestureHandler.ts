@@ -1,3 +1,4 @@
+import { useMemo } from 'react';
 import {
   type GestureStateChangeEvent,
   type GestureUpdateEvent,
@@ -6,12 +7,38 @@ import {
   State,
 } from 'react-native-gesture-handler';
 import type { SharedValue } from 'react-native-reanimated';
-import { useWorkletCallback } from 'react-native-reanimated';
-import { GESTURE_SOURCE } from '../constants';
+import { useSharedValue, useWorkletCallback } from 'react-native-reanimated';
+import {
+  ANIMATION_SOURCE,
+  GESTURE_SOURCE,
+  SCROLLABLE_TYPE,
+} from '../constants';
 import type {
   GestureEventHandlerCallbackType,
   GestureHandlersHookType,
 } from '../types';
+import { normalizeGestureEvent } from '../utilities/normalizeGestureEvent';
+import { useBottomSheetInternal } from './useBottomSheetInternal';
+
+type GestureTranslation = { x: number; y: number };
+
+/**
+ * Subtract the translation at the hand-off moment from a gesture event,
+ * so the parent sheet receives the remaining gesture only.
+ */
+const offsetGestureEvent = <
+  T extends { translationX: number; translationY: number },
+>(
+  event: T,
+  offset: GestureTranslation
+): T => {
+  'worklet';
+  return {
+    ...event,
+    translationX: event.translationX - offset.x,
+    translationY: event.translationY - offset.y,
+  };
+};
 
 export const useGestureHandler: GestureHandlersHookType = (
   source: GESTURE_SOURCE,
@@ -20,17 +47,64 @@ export const useGestureHandler: GestureHandlersHookType = (
   onStart: GestureEventHandlerCallbackType,
   onChange: GestureEventHandlerCallbackType,
   onEnd: GestureEventHandlerCallbackType,
-  onFinalize: GestureEventHandlerCallbackType
+  onFinalize: GestureEventHandlerCallbackType,
+  parentGestureHandler
 ) => {
+  const {
+    edge,
+    animatedIndex,
+    animatedCurrentIndex,
+    animatedPosition,
+    animatedHighestSnapPoint,
+    animatedScrollableType,
+    animatedSnapPointConfigs,
+    emitEvent,
+  } = useBottomSheetInternal();
+
+  /**
+   * The index and position the sheet was at, when the gesture started.
+   */
+  const gestureOrigin = useSharedValue({ index: 0, position: 0 });
+  /**
+   * The gesture translation when it was handed off to the parent sheet,
+   * or `null` if the gesture is still handled by this sheet.
+   */
+  const handOffTranslation = useSharedValue<GestureTranslation | null>(null);
+
   const handleOnStart = useWorkletCallback(
     (event: GestureStateChangeEvent<PanGestureHandlerEventPayload>) => {
+      /**
+       * if the sheet rests at a snap point with disabled drag,
+       * then we ignore the gesture.
+       */
+      if (
+        animatedSnapPointConfigs.value[animatedCurrentIndex.value]?.disableDrag
+      ) {
+        return;
+      }
+
       state.value = State.BEGAN;
       gestureSource.value = source;
+      handOffTranslation.value = null;
+
+      gestureOrigin.value = {
+        index: animatedIndex.value,
+        position: animatedPosition.value,
+      };
+      emitEvent({
+        type: 'gestureStart',
+        source: ANIMATION_SOURCE.GESTURE,
+        gestureSource: source,
+        fromIndex: animatedIndex.value,
+        toIndex: animatedIndex.value,
+        fromPosition: animatedPosition.value,
+        toPosition: animatedPosition.value,
+      });
 
-      onStart(source, event);
+      onStart(source, normalizeGestureEvent(event, edge));
       return;
     },
-    [state, gestureSource, source, onStart]
+    [state, gestureSource, source, edge, emitEvent, onStart]
   );
 
   const handleOnChange = useWorkletCallback(
@@ -43,10 +117,42 @@ export const useGestureHandler: GestureHandlersHookType = (
         return;
       }
 
+      /**
+       * if the gesture was handed off, then we forward it to the parent sheet.
+       */
+      if (parentGestureHandler && handOffTranslation.value) {
+        parentGestureHandler.handleOnChange(
+          offsetGestureEvent(event, handOffTranslation.value)
+        );
+        return;
+      }
+
       state.value = event.state;
-      onChange(source, event);
+      const normalizedEvent = normalizeGestureEvent(event, edge);
+      onChange(source, normalizedEvent);
+
+      /**
+       * if the sheet is nested and dragged past its highest snap point,
+       * then we pin it there and hand the remaining gesture to the parent sheet.
+       */
+      if (
+        parentGestureHandler &&
+        (source === GESTURE_SOURCE.HANDLE ||
+          animatedScrollableType.value === SCROLLABLE_TYPE.VIEW) &&
+        (normalizedEvent.changeY ?? 0) < 0 &&
+        animatedPosition.value <= animatedHighestSnapPoint.value
+      ) {
+        animatedPosition.value = animatedHighestSnapPoint.value;
+        handOffTranslation.value = {
+          x: event.translationX,
+          y: event.translationY,
+        };
+        parentGestureHandler.handleOnStart(
+          offsetGestureEvent(event, handOffTranslation.value)
+        );
+      }
     },
-    [state, gestureSource, source, onChange]
+    [state, gestureSource, source, edge, onChange, parentGestureHandler]
   );
 
   const handleOnEnd = useWorkletCallback(
@@ -58,13 +164,42 @@ export const useGestureHandler: GestureHandlersHookType = (
       state.value = event.state;
       gestureSource.value = GESTURE_SOURCE.UNDETERMINED;
 
-      onEnd(source, event);
+      if (parentGestureHandler && handOffTranslation.value) {
+        parentGestureHandler.handleOnEnd(
+          offsetGestureEvent(event, handOffTranslation.value)
+        );
+      }
+
+      const normalizedEvent = normalizeGestureEvent(event, edge);
+      emitEvent({
+        type: 'gestureEnd',
+        source: ANIMATION_SOURCE.GESTURE,
+        gestureSource: source,
+        velocity: normalizedEvent.velocityY,
+        fromIndex: gestureOrigin.value.index,
+        toIndex: animatedIndex.value,
+        fromPosition: gestureOrigin.value.position,
+        toPosition: animatedPosition.value,
+      });
+
+      onEnd(source, normalizedEvent);
     },
-    [state, gestureSource, source, onEnd]
+    [state, gestureSource, source, edge, emitEvent, onEnd, parentGestureHandler]
   );
 
   const handleOnFinalize = useWorkletCallback(
     (event: GestureStateChangeEvent<PanGestureHandlerEventPayload>) => {
+      /**
+       * the parent sheet finalizes the handed off gesture, even if
+       * this sheet already ended it.
+       */
+      if (parentGestureHandler && handOffTranslation.value) {
+        parentGestureHandler.handleOnFinalize(
+          offsetGestureEvent(event, handOffTranslation.value)
+        );
+        handOffTranslation.value = null;
+      }
+
       if (gestureSource.value !== source) {
         return;
       }
@@ -72,15 +207,18 @@ export const useGestureHandler: GestureHandlersHookType = (
       state.value = event.state;
       gestureSource.value = GESTURE_SOURCE.UNDETERMINED;
 
-      onFinalize(source, event);
+      onFinalize(source, normalizeGestureEvent(event, edge));
     },
-    [state, gestureSource, source, onFinalize]
+    [state, gestureSource, source, edge, onFinalize, parentGestureHandler]
   );
 
-  return {
-    handleOnStart,
-    handleOnChange,
-    handleOnEnd,
-    handleOnFinalize,
-  };
+  return useMemo(
+    () => ({
+      handleOnStart,
+      handleOnChange,
+      handleOnEnd,
+      handleOnFinalize,
+    }),
+    [handleOnStart, handleOnChange, handleOnEnd, handleOnFinalize]
+  );
 };
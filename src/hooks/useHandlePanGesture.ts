@@ -0,0 +1,121 @@
+import { useEffect, useMemo } from 'react';
+import { Gesture } from 'react-native-gesture-handler';
+import { useBottomSheetGestureHandlers } from './useBottomSheetGestureHandlers';
+import { useBottomSheetInternal } from './useBottomSheetInternal';
+import { useGestureAxisLocking } from './useGestureAxisLocking';
+
+/**
+ * Provides the pan gesture that drags the sheet from the handle
+ * and the header, and registers it with the parent sheet, if nested.
+ *
+ * @param enabled whether the gesture is enabled.
+ * @param internalSimultaneousHandlers handlers to run simultaneously with,
+ * alongside the sheet `simultaneousHandlers`.
+ */
+export const useHandlePanGesture = (
+  enabled: boolean,
+  internalSimultaneousHandlers?: unknown
+) => {
+  //#region hooks
+  const {
+    activeOffsetX,
+    activeOffsetY,
+    failOffsetX,
+    failOffsetY,
+    waitFor,
+    simultaneousHandlers: _providedSimultaneousHandlers,
+  } = useBottomSheetInternal();
+  const applyAxisLocking = useGestureAxisLocking();
+  const { handlePanGestureHandler, parentGestureHandlers } =
+    useBottomSheetGestureHandlers();
+  const registerParentNestedGesture =
+    parentGestureHandlers?.registerNestedGesture;
+  //#endregion
+
+  //#region variables
+  const simultaneousHandlers = useMemo<unknown[]>(() => {
+    const refs = [];
+
+    if (internalSimultaneousHandlers) {
+      refs.push(internalSimultaneousHandlers);
+    }
+
+    if (_providedSimultaneousHandlers) {
+      if (Array.isArray(_providedSimultaneousHandlers)) {
+        refs.push(..._providedSimultaneousHandlers);
+      } else {
+        refs.push(_providedSimultaneousHandlers);
+      }
+    }
+
+    return refs;
+  }, [_providedSimultaneousHandlers, internalSimultaneousHandlers]);
+
+  const panGesture = useMemo(() => {
+    let gesture = Gesture.Pan()
+      .enabled(enabled)
+      .shouldCancelWhenOutside(false)
+      .runOnJS(false)
+      .onStart(handlePanGestureHandler.handleOnStart)
+      .onChange(handlePanGestureHandler.handleOnChange)
+      .onEnd(handlePanGestureHandler.handleOnEnd)
+      .onFinalize(handlePanGestureHandler.handleOnFinalize);
+
+    if (waitFor) {
+      gesture = gesture.requireExternalGestureToFail(waitFor);
+    }
+
+    if (simultaneousHandlers) {
+      gesture = gesture.simultaneousWithExternalGesture(
+        simultaneousHandlers as never
+      );
+    }
+
+    if (activeOffsetX) {
+      gesture = gesture.activeOffsetX(activeOffsetX);
+    }
+
+    if (activeOffsetY) {
+      gesture = gesture.activeOffsetY(activeOffsetY);
+    }
+
+    if (failOffsetX) {
+      gesture = gesture.failOffsetX(failOffsetX);
+    }
+
+    if (failOffsetY) {
+      gesture = gesture.failOffsetY(failOffsetY);
+    }
+
+    return applyAxisLocking(gesture);
+  }, [
+    applyAxisLocking,
+    activeOffsetX,
+    activeOffsetY,
+    enabled,
+    failOffsetX,
+    failOffsetY,
+    simultaneousHandlers,
+    waitFor,
+    handlePanGestureHandler.handleOnChange,
+    handlePanGestureHandler.handleOnEnd,
+    handlePanGestureHandler.handleOnFinalize,
+    handlePanGestureHandler.handleOnStart,
+  ]);
+  //#endregion
+
+  //#region effects
+  /**
+   * register the gesture with the parent sheet, if nested.
+   */
+  useEffect(() => {
+    if (!registerParentNestedGesture) {
+      return;
+    }
+
+    return registerParentNestedGesture(panGesture);
+  }, [registerParentNestedGesture, panGesture]);
+  //#endregion
+
+  return panGesture;
+};
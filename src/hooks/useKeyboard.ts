@@ -1,35 +1,33 @@
-import { useEffect } from 'react';
+import type { KeyboardEventEasing } from 'react-native';
 import {
-  Keyboard,
-  type KeyboardEvent,
-  type KeyboardEventEasing,
-  type KeyboardEventName,
-  Platform,
-} from 'react-native';
-import {
-  runOnUI,
   useAnimatedReaction,
   useSharedValue,
   useWorkletCallback,
 } from 'react-native-reanimated';
 import { KEYBOARD_STATE } from '../constants';
+import type { KeyboardPolicy, KeyboardProviderHookType } from '../types';
+import { useKeyboardProviderDefault } from './useKeyboardProviderDefault';
 
-const KEYBOARD_EVENT_MAPPER = {
-  KEYBOARD_SHOW: Platform.select({
-    ios: 'keyboardWillShow',
-    android: 'keyboardDidShow',
-    default: '',
-  }) as KeyboardEventName,
-  KEYBOARD_HIDE: Platform.select({
-    ios: 'keyboardWillHide',
-    android: 'keyboardDidHide',
-    default: '',
-  }) as KeyboardEventName,
-};
+export const useKeyboard = (
+  useKeyboardProvider: KeyboardProviderHookType = useKeyboardProviderDefault
+) => {
+  //#region hooks
+  const {
+    state: providedKeyboardState,
+    height: providedKeyboardHeight,
+    isFrameAccurate,
+    animationEasing: providedKeyboardAnimationEasing,
+    animationDuration: providedKeyboardAnimationDuration,
+  } = useKeyboardProvider();
+  //#endregion
 
-export const useKeyboard = () => {
   //#region variables
   const shouldHandleKeyboardEvents = useSharedValue(false);
+  /**
+   * the focused text input keyboard overrides, it is set before
+   * `shouldHandleKeyboardEvents`, so it applies to the cached event.
+   */
+  const keyboardPolicy = useSharedValue<KeyboardPolicy | null>(null);
   const keyboardState = useSharedValue<KEYBOARD_STATE>(
     KEYBOARD_STATE.UNDETERMINED
   );
@@ -70,39 +68,42 @@ export const useKeyboard = () => {
   //#endregion
 
   //#region effects
-  useEffect(() => {
-    const handleOnKeyboardShow = (event: KeyboardEvent) => {
-      runOnUI(handleKeyboardEvent)(
-        KEYBOARD_STATE.SHOWN,
-        event.endCoordinates.height,
-        event.duration,
-        event.easing
-      );
-    };
-    const handleOnKeyboardHide = (event: KeyboardEvent) => {
-      runOnUI(handleKeyboardEvent)(
-        KEYBOARD_STATE.HIDDEN,
-        event.endCoordinates.height,
-        event.duration,
-        event.easing
-      );
-    };
-
-    const showSubscription = Keyboard.addListener(
-      KEYBOARD_EVENT_MAPPER.KEYBOARD_SHOW,
-      handleOnKeyboardShow
-    );
+  /**
+   * Forwards the provided keyboard state & height, which are
+   * updated once per keyboard animation or on every frame.
+   */
+  useAnimatedReaction(
+    () => ({
+      state: providedKeyboardState.value,
+      height: providedKeyboardHeight.value,
+    }),
+    (result, previous) => {
+      if (
+        result.state === previous?.state &&
+        result.height === previous?.height
+      ) {
+        return;
+      }
 
-    const hideSubscription = Keyboard.addListener(
-      KEYBOARD_EVENT_MAPPER.KEYBOARD_HIDE,
-      handleOnKeyboardHide
-    );
+      if (result.state === KEYBOARD_STATE.UNDETERMINED) {
+        return;
+      }
 
-    return () => {
-      showSubscription.remove();
-      hideSubscription.remove();
-    };
-  }, [handleKeyboardEvent]);
+      handleKeyboardEvent(
+        result.state,
+        result.height,
+        providedKeyboardAnimationDuration?.value ?? 500,
+        providedKeyboardAnimationEasing?.value ?? 'keyboard'
+      );
+    },
+    [
+      providedKeyboardState,
+      providedKeyboardHeight,
+      providedKeyboardAnimationDuration,
+      providedKeyboardAnimationEasing,
+      handleKeyboardEvent,
+    ]
+  );
 
   /**
    * This reaction is needed to handle the issue with multiline text input.
@@ -126,6 +127,8 @@ export const useKeyboard = () => {
     height: keyboardHeight,
     animationEasing: keyboardAnimationEasing,
     animationDuration: keyboardAnimationDuration,
+    isFrameAccurate,
     shouldHandleKeyboardEvents,
+    keyboardPolicy,
   };
 };
@@ -0,0 +1,76 @@
+import { useEffect } from 'react';
+import {
+  Keyboard,
+  type KeyboardEvent,
+  type KeyboardEventEasing,
+  type KeyboardEventName,
+  Platform,
+} from 'react-native';
+import { runOnUI, useSharedValue } from 'react-native-reanimated';
+import { KEYBOARD_STATE } from '../constants';
+import type { KeyboardProviderState } from '../types';
+
+const KEYBOARD_EVENT_MAPPER = {
+  KEYBOARD_SHOW: Platform.select({
+    ios: 'keyboardWillShow',
+    android: 'keyboardDidShow',
+    default: '',
+  }) as KeyboardEventName,
+  KEYBOARD_HIDE: Platform.select({
+    ios: 'keyboardWillHide',
+    android: 'keyboardDidHide',
+    default: '',
+  }) as KeyboardEventName,
+};
+
+/**
+ * Provides the keyboard state from the `Keyboard` module events, which
+ * are fired once per keyboard animation.
+ */
+export const useKeyboardEventsProvider = (): KeyboardProviderState => {
+  //#region variables
+  const state = useSharedValue<KEYBOARD_STATE>(KEYBOARD_STATE.UNDETERMINED);
+  const height = useSharedValue(0);
+  const animationEasing = useSharedValue<KeyboardEventEasing>('keyboard');
+  const animationDuration = useSharedValue(500);
+  //#endregion
+
+  //#region effects
+  useEffect(() => {
+    const handleKeyboardEvent = (
+      _state: KEYBOARD_STATE,
+      { endCoordinates, duration, easing }: KeyboardEvent
+    ) => {
+      runOnUI(() => {
+        height.value = endCoordinates.height;
+        animationDuration.value = duration;
+        animationEasing.value = easing;
+        state.value = _state;
+      })();
+    };
+
+    const showSubscription = Keyboard.addListener(
+      KEYBOARD_EVENT_MAPPER.KEYBOARD_SHOW,
+      event => handleKeyboardEvent(KEYBOARD_STATE.SHOWN, event)
+    );
+
+    const hideSubscription = Keyboard.addListener(
+      KEYBOARD_EVENT_MAPPER.KEYBOARD_HIDE,
+      event => handleKeyboardEvent(KEYBOARD_STATE.HIDDEN, event)
+    );
+
+    return () => {
+      showSubscription.remove();
+      hideSubscription.remove();
+    };
+  }, [state, height, animationEasing, animationDuration]);
+  //#endregion
+
+  return {
+    state,
+    height,
+    isFrameAccurate: false,
+    animationEasing,
+    animationDuration,
+  };
+};
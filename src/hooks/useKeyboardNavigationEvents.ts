@@ -0,0 +1,10 @@
+import type { RefObject } from 'react';
+
+/**
+ * Keyboard navigation is only supported on web, native platforms
+ * rely on the accessibility actions instead.
+ */
+export const useKeyboardNavigationEvents = (
+  _ref: RefObject<unknown>,
+  _handler: (key: string) => boolean
+) => {};
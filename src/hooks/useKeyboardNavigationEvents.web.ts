@@ -0,0 +1,58 @@
+import { type RefObject, useEffect } from 'react';
+
+type KeyboardEvent = {
+  key: string;
+  defaultPrevented: boolean;
+  preventDefault: () => void;
+};
+
+type KeyboardEventTarget = {
+  addEventListener: (
+    type: 'keydown',
+    listener: (event: KeyboardEvent) => void
+  ) => void;
+  removeEventListener: (
+    type: 'keydown',
+    listener: (event: KeyboardEvent) => void
+  ) => void;
+};
+
+/**
+ * On web, the ref is resolved to the DOM element.
+ */
+const isKeyboardEventTarget = (
+  element: unknown
+): element is KeyboardEventTarget =>
+  typeof (element as KeyboardEventTarget | null)?.addEventListener ===
+  'function';
+
+/**
+ * Listens to the key presses on the provided element, and forward
+ * them to the provided handler.
+ */
+export const useKeyboardNavigationEvents = (
+  ref: RefObject<unknown>,
+  handler: (key: string) => boolean
+) => {
+  useEffect(() => {
+    const element = ref.current;
+    if (!isKeyboardEventTarget(element)) {
+      return;
+    }
+
+    function handleOnKeyDown(event: KeyboardEvent) {
+      if (event.defaultPrevented) {
+        return;
+      }
+
+      if (handler(event.key)) {
+        event.preventDefault();
+      }
+    }
+
+    element.addEventListener('keydown', handleOnKeyDown);
+    return () => {
+      element.removeEventListener('keydown', handleOnKeyDown);
+    };
+  }, [ref, handler]);
+};
@@ -0,0 +1,9 @@
+/**
+ * The default keyboard provider, it relies on the `Keyboard` module events.
+ *
+ * ⚠️ On Android, the events are fired once the keyboard did show, so the sheet
+ * adjusts after the keyboard animation. Following the keyboard on every frame
+ * is opt-in with the `useAnimatedKeyboardProvider`, through the
+ * `keyboardProviderHook` prop.
+ */
+export { useKeyboardEventsProvider as useKeyboardProviderDefault } from './useKeyboardEventsProvider';
@@ -0,0 +1 @@
+export { useVisualViewportKeyboardProvider as useKeyboardProviderDefault } from './useVisualViewportKeyboardProvider';
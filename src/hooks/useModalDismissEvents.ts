@@ -0,0 +1,20 @@
+import { useEffect } from 'react';
+import { BackHandler } from 'react-native';
+import type { BottomSheetModalDismissEventSource } from '../components/bottomSheetModal';
+
+/**
+ * Listens to the hardware back button press, and forward it
+ * to the provided handler.
+ */
+export const useModalDismissEvents = (
+  handler: (source: BottomSheetModalDismissEventSource) => boolean
+) => {
+  useEffect(() => {
+    const subscription = BackHandler.addEventListener('hardwareBackPress', () =>
+      handler('backPress')
+    );
+    return () => {
+      subscription.remove();
+    };
+  }, [handler]);
+};
@@ -0,0 +1,35 @@
+import { useEffect } from 'react';
+import type { BottomSheetModalDismissEventSource } from '../components/bottomSheetModal';
+
+type KeyboardEvent = {
+  key: string;
+  defaultPrevented: boolean;
+  preventDefault: () => void;
+};
+
+/**
+ * Listens to the `Escape` key press, and forward it
+ * to the provided handler.
+ */
+export const useModalDismissEvents = (
+  handler: (source: BottomSheetModalDismissEventSource) => boolean
+) => {
+  useEffect(() => {
+    function handleOnKeyDown(event: KeyboardEvent) {
+      if (event.key !== 'Escape' || event.defaultPrevented) {
+        return;
+      }
+
+      if (handler('escape')) {
+        event.preventDefault();
+      }
+    }
+
+    // @ts-ignore
+    window.addEventListener('keydown', handleOnKeyDown);
+    return () => {
+      // @ts-ignore
+      window.removeEventListener('keydown', handleOnKeyDown);
+    };
+  }, [handler]);
+};
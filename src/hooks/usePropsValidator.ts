@@ -2,6 +2,7 @@ import invariant from 'invariant';
 import { useMemo } from 'react';
 import type { BottomSheetProps } from '../components/bottomSheet';
 import { INITIAL_SNAP_POINT } from '../components/bottomSheet/constants';
+import { validateSnapPoint } from '../utilities/validateSnapPoint';
 
 /**
  * @todo
@@ -14,9 +15,17 @@ export const usePropsValidator = ({
   enableDynamicSizing,
   topInset,
   bottomInset,
+  snapStrategy,
+  keyboardSnapIndex,
 }: Pick<
   BottomSheetProps,
-  'index' | 'snapPoints' | 'enableDynamicSizing' | 'topInset' | 'bottomInset'
+  | 'index'
+  | 'snapPoints'
+  | 'enableDynamicSizing'
+  | 'topInset'
+  | 'bottomInset'
+  | 'snapStrategy'
+  | 'keyboardSnapIndex'
 >) => {
   useMemo(() => {
     //#region snap points
@@ -30,15 +39,48 @@ export const usePropsValidator = ({
       `'snapPoints' was not provided! please provide at least one snap point.`
     );
 
+    const snapPointIds: string[] = [];
     _snapPoints.map(snapPoint => {
+      validateSnapPoint(snapPoint, enableDynamicSizing);
+
+      const snapPointValue =
+        typeof snapPoint === 'object' ? snapPoint.value : snapPoint;
+
+      /**
+       * only plain pixels and percentages could be checked
+       * before the layout is calculated.
+       */
       const _snapPoint =
-        typeof snapPoint === 'number'
-          ? snapPoint
-          : Number.parseInt(snapPoint.replace('%', ''), 10);
+        typeof snapPointValue === 'number'
+          ? snapPointValue
+          : typeof snapPointValue === 'string' &&
+              /^\s*[\d.]+%\s*$/.test(snapPointValue)
+            ? Number.parseFloat(snapPointValue)
+            : undefined;
 
       invariant(
-        _snapPoint > 0 || _snapPoint === INITIAL_SNAP_POINT,
-        `Snap point '${snapPoint}' is invalid. if you want to allow user to close the sheet, Please use 'enablePanDownToClose' prop.`
+        _snapPoint === undefined ||
+          _snapPoint > 0 ||
+          _snapPoint === INITIAL_SNAP_POINT,
+        `Snap point '${snapPointValue}' is invalid. if you want to allow user to close the sheet, Please use 'enablePanDownToClose' prop.`
+      );
+
+      if (typeof snapPoint !== 'object') {
+        return;
+      }
+
+      if (snapPoint.id !== undefined) {
+        invariant(
+          !snapPointIds.includes(snapPoint.id),
+          `Snap point id '${snapPoint.id}' is duplicated! expected snap point ids to be unique.`
+        );
+        snapPointIds.push(snapPoint.id);
+      }
+
+      invariant(
+        snapPoint.backdropOpacity === undefined ||
+          (snapPoint.backdropOpacity >= 0 && snapPoint.backdropOpacity <= 1),
+        `Snap point '${snapPointValue}' 'backdropOpacity' was provided but out of range! expected value to be between 0, 1`
       );
     });
 
@@ -65,6 +107,18 @@ export const usePropsValidator = ({
     );
     //#endregion
 
+    //#region keyboard
+    invariant(
+      typeof keyboardSnapIndex === 'undefined' ||
+        (typeof keyboardSnapIndex === 'number' &&
+          keyboardSnapIndex >= 0 &&
+          (enableDynamicSizing || keyboardSnapIndex <= _snapPoints.length - 1)),
+      `'keyboardSnapIndex' was provided but out of the provided snap points range! expected value to be between 0, ${
+        _snapPoints.length - 1
+      }`
+    );
+    //#endregion
+
     //#region insets
     invariant(
       typeof topInset === 'number' || typeof topInset === 'undefined',
@@ -76,6 +130,27 @@ export const usePropsValidator = ({
     );
     //#endregion
 
+    //#region snap strategy
+    if (
+      typeof snapStrategy === 'object' &&
+      snapStrategy.type === 'projected' &&
+      snapStrategy.deceleration !== undefined
+    ) {
+      invariant(
+        snapStrategy.deceleration > 0 && snapStrategy.deceleration < 1,
+        `'snapStrategy' deceleration was provided but out of range! expected value to be between 0 and 1.`
+      );
+    }
+    //#endregion
+
     // animations
-  }, [index, snapPoints, topInset, bottomInset, enableDynamicSizing]);
+  }, [
+    index,
+    snapPoints,
+    topInset,
+    bottomInset,
+    enableDynamicSizing,
+    snapStrategy,
+    keyboardSnapIndex,
+  ]);
 };
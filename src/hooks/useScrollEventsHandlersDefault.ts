@@ -1,20 +1,31 @@
 import { State } from 'react-native-gesture-handler';
 import { scrollTo, useWorkletCallback } from 'react-native-reanimated';
-import { ANIMATION_STATE, SCROLLABLE_STATE, SHEET_STATE } from '../constants';
+import {
+  ANIMATION_STATE,
+  DRAG_DIRECTION,
+  SCROLLABLE_STATE,
+  SHEET_EDGE,
+  SHEET_STATE,
+} from '../constants';
 import type {
   ScrollEventHandlerCallbackType,
   ScrollEventsHandlersHookType,
 } from '../types';
+import { getDragDirection } from '../utilities/getDragDirection';
 import { useBottomSheetInternal } from './useBottomSheetInternal';
 
 export type ScrollEventContextType = {
   initialContentOffsetY: number;
   shouldLockInitialPosition: boolean;
+  isDragging: boolean;
+  lastContentOffsetY: number;
+  isInactive: boolean;
 };
 
 export const useScrollEventsHandlersDefault: ScrollEventsHandlersHookType = (
   scrollableRef,
-  scrollableContentOffsetY
+  scrollableContentOffsetY,
+  scrollableId
 ) => {
   // hooks
   const {
@@ -23,12 +34,47 @@ export const useScrollEventsHandlersDefault: ScrollEventsHandlersHookType = (
     animatedAnimationState,
     animatedHandleGestureState,
     animatedScrollableContentOffsetY: rootScrollableContentOffsetY,
+    animatedActiveScrollableId,
+    animatedVelocity,
+    animatedDragDirection,
+    edge,
   } = useBottomSheetInternal();
 
   //#region callbacks
+  /**
+   * a scrollable is active, when it is not registered with an id,
+   * or when the sheet does not control the active scrollable.
+   */
+  const isActiveScrollable = useWorkletCallback(
+    () =>
+      scrollableId === undefined ||
+      animatedActiveScrollableId.value === null ||
+      animatedActiveScrollableId.value === scrollableId,
+    [scrollableId, animatedActiveScrollableId]
+  );
   const handleOnScroll: ScrollEventHandlerCallbackType<ScrollEventContextType> =
     useWorkletCallback(
       ({ contentOffset: { y } }, context) => {
+        /**
+         * inactive scrollables, like the hidden tabs, only track their
+         * own content offset, and they are not locked by the sheet.
+         */
+        if (!isActiveScrollable()) {
+          context.isInactive = true;
+          scrollableContentOffsetY.value = y;
+          return;
+        }
+
+        /**
+         * if the scrollable got activated while scrolling, like during
+         * tabs transitions, then we lock it at its current content offset.
+         */
+        if (context.isInactive) {
+          context.isInactive = false;
+          context.shouldLockInitialPosition = y > 0;
+          context.initialContentOffsetY = y;
+        }
+
         /**
          * if sheet position is extended or fill parent, then we reset
          * `shouldLockInitialPosition` value to false.
@@ -58,20 +104,41 @@ export const useScrollEventsHandlersDefault: ScrollEventsHandlersHookType = (
           scrollableContentOffsetY.value = lockPosition;
           return;
         }
+
+        /**
+         * if the scrollable is dragged while unlocked, then the sheet rests
+         * and the drag direction follows the content offset changes.
+         * scrollables hand-off is only supported on the bottom edge.
+         */
+        if (context.isDragging && edge === SHEET_EDGE.bottom) {
+          animatedVelocity.value = 0;
+          animatedDragDirection.value = getDragDirection(
+            (context.lastContentOffsetY ?? y) - y
+          );
+          context.lastContentOffsetY = y;
+        }
       },
       [
         scrollableRef,
         scrollableContentOffsetY,
         animatedScrollableState,
         animatedSheetState,
+        animatedVelocity,
+        animatedDragDirection,
+        edge,
+        isActiveScrollable,
       ]
     );
   const handleOnBeginDrag: ScrollEventHandlerCallbackType<ScrollEventContextType> =
     useWorkletCallback(
       ({ contentOffset: { y } }, context) => {
         scrollableContentOffsetY.value = y;
-        rootScrollableContentOffsetY.value = y;
+        if (isActiveScrollable()) {
+          rootScrollableContentOffsetY.value = y;
+        }
         context.initialContentOffsetY = y;
+        context.isDragging = true;
+        context.lastContentOffsetY = y;
 
         /**
          * if sheet position not extended or fill parent and the scrollable position
@@ -91,11 +158,23 @@ export const useScrollEventsHandlersDefault: ScrollEventsHandlersHookType = (
         scrollableContentOffsetY,
         animatedSheetState,
         rootScrollableContentOffsetY,
+        isActiveScrollable,
       ]
     );
   const handleOnEndDrag: ScrollEventHandlerCallbackType<ScrollEventContextType> =
     useWorkletCallback(
       ({ contentOffset: { y } }, context) => {
+        context.isDragging = false;
+        if (!isActiveScrollable()) {
+          scrollableContentOffsetY.value = y;
+          return;
+        }
+
+        if (edge === SHEET_EDGE.bottom) {
+          animatedVelocity.value = 0;
+          animatedDragDirection.value = DRAG_DIRECTION.NONE;
+        }
+
         if (animatedScrollableState.value === SCROLLABLE_STATE.LOCKED) {
           const lockPosition = context.shouldLockInitialPosition
             ? (context.initialContentOffsetY ?? 0)
@@ -117,11 +196,20 @@ export const useScrollEventsHandlersDefault: ScrollEventsHandlersHookType = (
         animatedAnimationState,
         animatedScrollableState,
         rootScrollableContentOffsetY,
+        animatedVelocity,
+        animatedDragDirection,
+        edge,
+        isActiveScrollable,
       ]
     );
   const handleOnMomentumEnd: ScrollEventHandlerCallbackType<ScrollEventContextType> =
     useWorkletCallback(
       ({ contentOffset: { y } }, context) => {
+        if (!isActiveScrollable()) {
+          scrollableContentOffsetY.value = y;
+          return;
+        }
+
         if (animatedScrollableState.value === SCROLLABLE_STATE.LOCKED) {
           const lockPosition = context.shouldLockInitialPosition
             ? (context.initialContentOffsetY ?? 0)
@@ -143,6 +231,7 @@ export const useScrollEventsHandlersDefault: ScrollEventsHandlersHookType = (
         animatedAnimationState,
         animatedScrollableState,
         rootScrollableContentOffsetY,
+        isActiveScrollable,
       ]
     );
   //#endregion
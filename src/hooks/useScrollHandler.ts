@@ -12,7 +12,8 @@ export const useScrollHandler = (
   useScrollEventsHandlers = useScrollEventsHandlersDefault,
   onScroll?: ScrollableEvent,
   onScrollBeginDrag?: ScrollableEvent,
-  onScrollEndDrag?: ScrollableEvent
+  onScrollEndDrag?: ScrollableEvent,
+  scrollableId?: string
 ) => {
   // refs
   const scrollableRef = useAnimatedRef<Scrollable>();
@@ -27,7 +28,11 @@ export const useScrollHandler = (
     handleOnEndDrag = noop,
     handleOnMomentumEnd = noop,
     handleOnMomentumBegin = noop,
-  } = useScrollEventsHandlers(scrollableRef, scrollableContentOffsetY);
+  } = useScrollEventsHandlers(
+    scrollableRef,
+    scrollableContentOffsetY,
+    scrollableId
+  );
 
   // callbacks
   const scrollHandler = useAnimatedScrollHandler(
@@ -1,8 +1,11 @@
 import { type TouchEvent, useEffect, useRef } from 'react';
+import { PointerType, State } from 'react-native-gesture-handler';
 import { useSharedValue } from 'react-native-reanimated';
-import { ANIMATION_STATE, SCROLLABLE_STATE } from '../constants';
+import { ANIMATION_STATE, SCROLLABLE_STATE, SHEET_EDGE } from '../constants';
 import type { Scrollable, ScrollableEvent } from '../types';
 import { findNodeHandle } from '../utilities/findNodeHandle.web';
+import { useBottomSheet } from './useBottomSheet';
+import { useBottomSheetGestureHandlers } from './useBottomSheetGestureHandlers';
 import { useBottomSheetInternal } from './useBottomSheetInternal';
 
 export type ScrollEventContextType = {
@@ -10,7 +13,61 @@ export type ScrollEventContextType = {
   shouldLockInitialPosition: boolean;
 };
 
-export const useScrollHandler = (_: never, onScroll?: ScrollableEvent) => {
+type PointerEvent = {
+  pointerId: number;
+  pointerType: string;
+  isPrimary: boolean;
+  button: number;
+  clientX: number;
+  clientY: number;
+  timeStamp: number;
+  preventDefault: () => void;
+};
+
+type PointerDragContextType = {
+  pointerId: number;
+  initialX: number;
+  initialY: number;
+  x: number;
+  y: number;
+  timestamp: number;
+  velocityX: number;
+  velocityY: number;
+  isActive: boolean;
+};
+
+type WheelEvent = {
+  deltaY: number;
+  deltaMode: number;
+  ctrlKey: boolean;
+  preventDefault: () => void;
+};
+
+/**
+ * Accumulated wheel distance needed to snap to the next point.
+ */
+const WHEEL_SNAP_THRESHOLD = 50;
+/**
+ * Idle time after a wheel snap, before accepting new wheel events,
+ * to skip the trackpad momentum.
+ */
+const WHEEL_SNAP_COOLDOWN = 150;
+/**
+ * Pixels per line, when the wheel delta is reported in lines.
+ */
+const WHEEL_LINE_HEIGHT = 16;
+/**
+ * Distance the pointer moves, before it starts dragging the sheet.
+ */
+const POINTER_DRAG_SLOP = 10;
+
+export const useScrollHandler = (
+  _: never,
+  onScroll?: ScrollableEvent,
+  _onScrollBeginDrag?: ScrollableEvent,
+  _onScrollEndDrag?: ScrollableEvent,
+  scrollableId?: string
+) => {
   //#region refs
   const scrollableRef = useRef<Scrollable>(null);
   //#endregion
@@ -24,7 +81,14 @@ export const useScrollHandler = (_: never, onScroll?: ScrollableEvent) => {
     animatedScrollableState,
     animatedAnimationState,
     animatedScrollableContentOffsetY,
+    animatedActiveScrollableId,
+    animatedSnapPoints,
+    animatedContentGestureState,
+    enablePanDownToClose,
+    edge,
   } = useBottomSheetInternal();
+  const { animatedIndex, snapToIndex, close } = useBottomSheet();
+  const { contentPanGestureHandler } = useBottomSheetGestureHandlers();
   //#endregion
 
   //#region effects
@@ -39,6 +103,23 @@ export const useScrollHandler = (_: never, onScroll?: ScrollableEvent) => {
     let initialContentOffsetY = 0;
     const shouldLockInitialPosition = false;
 
+    let wheelDelta = 0;
+    let wheelCooldownTimeout: ReturnType<typeof setTimeout> | undefined;
+
+    let pointerDrag: PointerDragContextType | null = null;
+
+    /**
+     * inactive scrollables, like the hidden tabs, only track their
+     * own content offset, and they are not locked by the sheet.
+     */
+    function isActiveScrollable() {
+      return (
+        scrollableId === undefined ||
+        animatedActiveScrollableId.value === null ||
+        animatedActiveScrollableId.value === scrollableId
+      );
+    }
+
     function handleOnTouchStart(event: TouchEvent) {
       if (event.touches.length !== 1) {
         return;
@@ -50,6 +131,10 @@ export const useScrollHandler = (_: never, onScroll?: ScrollableEvent) => {
     }
 
     function handleOnTouchMove(event: TouchEvent) {
+      if (!isActiveScrollable()) {
+        return true;
+      }
+
       if (animatedScrollableState.value === SCROLLABLE_STATE.LOCKED) {
         return event.preventDefault();
       }
@@ -69,6 +154,10 @@ export const useScrollHandler = (_: never, onScroll?: ScrollableEvent) => {
     }
 
     function handleOnTouchEnd() {
+      if (!isActiveScrollable()) {
+        return;
+      }
+
       if (animatedScrollableState.value === SCROLLABLE_STATE.LOCKED) {
         const lockPosition = shouldLockInitialPosition
           ? (initialContentOffsetY ?? 0)
@@ -83,12 +172,213 @@ export const useScrollHandler = (_: never, onScroll?: ScrollableEvent) => {
       }
     }
 
+    /**
+     * mouse & pen pointers do not fire touch events, nor scroll the
+     * content when dragged, then we drag the sheet with the pointer
+     * events through the content pan gesture handler.
+     */
+    function createPointerGestureEvent(state: State, oldState: State) {
+      const drag = pointerDrag as PointerDragContextType;
+      return {
+        handlerTag: -1,
+        numberOfPointers: 1,
+        state,
+        oldState,
+        pointerType: PointerType.MOUSE,
+        x: drag.x,
+        y: drag.y,
+        absoluteX: drag.x,
+        absoluteY: drag.y,
+        translationX: drag.x - drag.initialX,
+        translationY: drag.y - drag.initialY,
+        velocityX: drag.velocityX,
+        velocityY: drag.velocityY,
+        stylusData: undefined,
+      };
+    }
+
+    /**
+     * skip the pointers already handled by the content pan gesture.
+     */
+    function isContentGestureActive() {
+      return (
+        animatedContentGestureState.value === State.BEGAN ||
+        animatedContentGestureState.value === State.ACTIVE
+      );
+    }
+
+    function handleOnPointerDown(event: PointerEvent) {
+      if (
+        event.pointerType === 'touch' ||
+        !event.isPrimary ||
+        event.button !== 0
+      ) {
+        return;
+      }
+
+      initialContentOffsetY = element.scrollTop;
+
+      if (!isActiveScrollable() || isContentGestureActive()) {
+        return;
+      }
+
+      pointerDrag = {
+        pointerId: event.pointerId,
+        initialX: event.clientX,
+        initialY: event.clientY,
+        x: event.clientX,
+        y: event.clientY,
+        timestamp: event.timeStamp,
+        velocityX: 0,
+        velocityY: 0,
+        isActive: false,
+      };
+    }
+
+    function handleOnPointerMove(event: PointerEvent) {
+      if (!pointerDrag || event.pointerId !== pointerDrag.pointerId) {
+        return;
+      }
+
+      if (!pointerDrag.isActive) {
+        const distance = Math.max(
+          Math.abs(event.clientX - pointerDrag.initialX),
+          Math.abs(event.clientY - pointerDrag.initialY)
+        );
+        if (distance < POINTER_DRAG_SLOP) {
+          return;
+        }
+
+        if (isContentGestureActive()) {
+          pointerDrag = null;
+          return;
+        }
+
+        pointerDrag.isActive = true;
+        element.setPointerCapture(event.pointerId);
+        contentPanGestureHandler.handleOnStart(
+          createPointerGestureEvent(State.BEGAN, State.UNDETERMINED)
+        );
+      }
+
+      event.preventDefault();
+
+      const elapsed = event.timeStamp - pointerDrag.timestamp;
+      const changeX = event.clientX - pointerDrag.x;
+      const changeY = event.clientY - pointerDrag.y;
+      pointerDrag = {
+        ...pointerDrag,
+        x: event.clientX,
+        y: event.clientY,
+        timestamp: event.timeStamp,
+        velocityX: elapsed > 0 ? (changeX / elapsed) * 1000 : 0,
+        velocityY: elapsed > 0 ? (changeY / elapsed) * 1000 : 0,
+      };
+
+      contentPanGestureHandler.handleOnChange({
+        ...createPointerGestureEvent(State.ACTIVE, State.ACTIVE),
+        changeX,
+        changeY,
+      });
+    }
+
+    function handleOnPointerUp(event: PointerEvent) {
+      if (event.pointerType === 'touch' || !event.isPrimary) {
+        return;
+      }
+
+      if (pointerDrag?.isActive && event.pointerId === pointerDrag.pointerId) {
+        element.releasePointerCapture(event.pointerId);
+        contentPanGestureHandler.handleOnEnd(
+          createPointerGestureEvent(State.END, State.ACTIVE)
+        );
+        contentPanGestureHandler.handleOnFinalize(
+          createPointerGestureEvent(State.END, State.ACTIVE)
+        );
+      }
+      pointerDrag = null;
+
+      handleOnTouchEnd();
+    }
+
+    function handleOnWheel(event: WheelEvent) {
+      /**
+       * trackpad pinch gestures are reported as wheel events with
+       * the ctrl key, and scrollables hand-off is only supported on
+       * the bottom edge.
+       */
+      if (
+        event.ctrlKey ||
+        edge !== SHEET_EDGE.bottom ||
+        !isActiveScrollable()
+      ) {
+        return;
+      }
+
+      const deltaY =
+        event.deltaMode === 1 ? event.deltaY * WHEEL_LINE_HEIGHT : event.deltaY;
+      const index = Math.round(animatedIndex.value);
+      const isExpanding = deltaY > 0;
+
+      /**
+       * the sheet snaps when expanding until the highest point, or when
+       * collapsing while the scrollable is at its top edge.
+       */
+      const shouldSnap = isExpanding
+        ? index < animatedSnapPoints.value.length - 1
+        : element.scrollTop <= 0 &&
+          (index > 0 || (index === 0 && enablePanDownToClose));
+
+      if (!shouldSnap) {
+        wheelDelta = 0;
+        return;
+      }
+
+      event.preventDefault();
+
+      if (
+        wheelCooldownTimeout !== undefined ||
+        animatedAnimationState.value === ANIMATION_STATE.RUNNING
+      ) {
+        clearTimeout(wheelCooldownTimeout);
+        wheelCooldownTimeout = setTimeout(() => {
+          wheelCooldownTimeout = undefined;
+        }, WHEEL_SNAP_COOLDOWN);
+        wheelDelta = 0;
+        return;
+      }
+
+      if (Math.sign(deltaY) !== Math.sign(wheelDelta)) {
+        wheelDelta = 0;
+      }
+
+      wheelDelta += deltaY;
+      if (Math.abs(wheelDelta) < WHEEL_SNAP_THRESHOLD) {
+        return;
+      }
+
+      wheelDelta = 0;
+      wheelCooldownTimeout = setTimeout(() => {
+        wheelCooldownTimeout = undefined;
+      }, WHEEL_SNAP_COOLDOWN);
+
+      if (isExpanding) {
+        snapToIndex(index + 1);
+      } else if (index > 0) {
+        snapToIndex(index - 1);
+      } else {
+        close();
+      }
+    }
+
     function handleOnScroll(event: TouchEvent) {
       scrollOffset = element.scrollTop;
 
       if (animatedAnimationState.value !== ANIMATION_STATE.RUNNING) {
         scrollableContentOffsetY.value = Math.max(0, scrollOffset);
-        animatedScrollableContentOffsetY.value = Math.max(0, scrollOffset);
+        if (isActiveScrollable()) {
+          animatedScrollableContentOffsetY.value = Math.max(0, scrollOffset);
+        }
       }
 
       if (scrollOffset <= 0) {
@@ -140,6 +430,56 @@ export const useScrollHandler = (_: never, onScroll?: ScrollableEvent) => {
         : false
     );
 
+    element.addEventListener(
+      'pointerdown',
+      handleOnPointerDown,
+      supportsPassive
+        ? {
+            passive: true,
+          }
+        : false
+    );
+
+    element.addEventListener(
+      'pointermove',
+      handleOnPointerMove,
+      supportsPassive
+        ? {
+            passive: false,
+          }
+        : false
+    );
+
+    element.addEventListener(
+      'pointerup',
+      handleOnPointerUp,
+      supportsPassive
+        ? {
+            passive: true,
+          }
+        : false
+    );
+
+    element.addEventListener(
+      'pointercancel',
+      handleOnPointerUp,
+      supportsPassive
+        ? {
+            passive: true,
+          }
+        : false
+    );
+
+    element.addEventListener(
+      'wheel',
+      handleOnWheel,
+      supportsPassive
+        ? {
+            passive: false,
+          }
+        : false
+    );
+
     element.addEventListener(
       'scroll',
       handleOnScroll,
@@ -156,13 +496,29 @@ export const useScrollHandler = (_: never, onScroll?: ScrollableEvent) => {
       element.removeEventListener('touchstart', handleOnTouchStart);
       element.removeEventListener('touchmove', handleOnTouchMove);
       element.removeEventListener('touchend', handleOnTouchEnd);
+      element.removeEventListener('pointerdown', handleOnPointerDown);
+      element.removeEventListener('pointermove', handleOnPointerMove);
+      element.removeEventListener('pointerup', handleOnPointerUp);
+      element.removeEventListener('pointercancel', handleOnPointerUp);
+      element.removeEventListener('wheel', handleOnWheel);
       element.removeEventListener('scroll', handleOnScroll);
+      clearTimeout(wheelCooldownTimeout);
     };
   }, [
     animatedAnimationState,
+    animatedActiveScrollableId,
+    animatedContentGestureState,
+    animatedIndex,
     animatedScrollableContentOffsetY,
     animatedScrollableState,
+    animatedSnapPoints,
+    enablePanDownToClose,
+    edge,
     scrollableContentOffsetY,
+    scrollableId,
+    snapToIndex,
+    close,
+    contentPanGestureHandler,
   ]);
   //#endregion
 
@@ -2,13 +2,16 @@ import { type RefObject, useCallback, useRef } from 'react';
 import type { NodeHandle } from 'react-native';
 import { useSharedValue } from 'react-native-reanimated';
 import { SCROLLABLE_STATE, SCROLLABLE_TYPE } from '../constants';
-import type { Scrollable, ScrollableRef } from '../types';
+import type { RegisteredScrollable, Scrollable, ScrollableRef } from '../types';
 import { findNodeHandle } from '../utilities';
 
-export const useScrollable = () => {
+export const useScrollable = (activeScrollableId?: string) => {
   // refs
   const scrollableRef = useRef<ScrollableRef>(null);
   const previousScrollableRef = useRef<ScrollableRef>(null);
+  const registeredScrollablesRef = useRef<Map<string, RegisteredScrollable>>(
+    new Map()
+  );
 
   // variables
   const animatedScrollableType = useSharedValue<SCROLLABLE_TYPE>(
@@ -19,6 +22,9 @@ export const useScrollable = () => {
     SCROLLABLE_STATE.UNDETERMINED
   );
   const isScrollableRefreshable = useSharedValue<boolean>(false);
+  const animatedActiveScrollableId = useSharedValue<string | null>(
+    activeScrollableId ?? null
+  );
 
   // callbacks
   const setScrollableRef = useCallback((ref: ScrollableRef) => {
@@ -58,13 +64,75 @@ export const useScrollable = () => {
     }
   }, []);
 
+  const activateScrollable = useCallback(
+    (scrollable: RegisteredScrollable) => {
+      animatedScrollableContentOffsetY.value = scrollable.contentOffsetY.value;
+      animatedScrollableType.value = scrollable.type;
+      isScrollableRefreshable.value = scrollable.refreshable;
+      setScrollableRef(scrollable.ref);
+    },
+    [
+      animatedScrollableContentOffsetY,
+      animatedScrollableType,
+      isScrollableRefreshable,
+      setScrollableRef,
+    ]
+  );
+
+  const registerScrollable = useCallback(
+    (scrollable: RegisteredScrollable) => {
+      registeredScrollablesRef.current.set(scrollable.id, scrollable);
+
+      if (scrollable.id === animatedActiveScrollableId.value) {
+        activateScrollable(scrollable);
+      }
+    },
+    [animatedActiveScrollableId, activateScrollable]
+  );
+
+  const unregisterScrollable = useCallback(
+    (id: string, ref: RefObject<Scrollable>) => {
+      const scrollable = registeredScrollablesRef.current.get(id);
+
+      /**
+       * @DEV
+       * a remounted scrollable could register the same id before the
+       * previous one unregisters, then we only remove the matching one.
+       */
+      if (scrollable?.ref.node !== ref) {
+        return;
+      }
+
+      registeredScrollablesRef.current.delete(id);
+      removeScrollableRef(ref);
+    },
+    [removeScrollableRef]
+  );
+
+  const setActiveScrollableId = useCallback(
+    (id: string | null) => {
+      animatedActiveScrollableId.value = id;
+
+      const scrollable =
+        id !== null ? registeredScrollablesRef.current.get(id) : undefined;
+      if (scrollable) {
+        activateScrollable(scrollable);
+      }
+    },
+    [animatedActiveScrollableId, activateScrollable]
+  );
+
   return {
     scrollableRef,
     animatedScrollableType,
     animatedScrollableContentOffsetY,
     animatedScrollableOverrideState,
     isScrollableRefreshable,
+    animatedActiveScrollableId,
     setScrollableRef,
     removeScrollableRef,
+    registerScrollable,
+    unregisterScrollable,
+    setActiveScrollableId,
   };
 };
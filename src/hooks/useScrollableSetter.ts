@@ -11,20 +11,32 @@ export const useScrollableSetter = (
   type: SCROLLABLE_TYPE,
   contentOffsetY: SharedValue<number>,
   refreshable: boolean,
-  useFocusHook = useEffect
+  useFocusHook = useEffect,
+  id?: string
 ) => {
   // hooks
   const {
     animatedScrollableType,
     animatedScrollableContentOffsetY: rootScrollableContentOffsetY,
+    animatedActiveScrollableId,
     isContentHeightFixed,
     isScrollableRefreshable,
     setScrollableRef,
     removeScrollableRef,
+    registerScrollable,
+    unregisterScrollable,
   } = useBottomSheetInternal();
 
   // callbacks
   const handleSettingScrollable = useCallback(() => {
+    /**
+     * when the sheet controls the active scrollable, then registered
+     * scrollables are only activated by their id.
+     */
+    if (id !== undefined && animatedActiveScrollableId.value !== null) {
+      return;
+    }
+
     // set current content offset
     rootScrollableContentOffsetY.value = contentOffsetY.value;
     animatedScrollableType.value = type;
@@ -32,10 +44,10 @@ export const useScrollableSetter = (
     isContentHeightFixed.value = false;
 
     // set current scrollable ref
-    const id = findNodeHandle(ref.current);
-    if (id) {
+    const nodeId = findNodeHandle(ref.current);
+    if (nodeId) {
       setScrollableRef({
-        id: id,
+        id: nodeId,
         node: ref,
       });
     } else {
@@ -46,10 +58,12 @@ export const useScrollableSetter = (
       removeScrollableRef(ref);
     };
   }, [
+    id,
     ref,
     type,
     refreshable,
     animatedScrollableType,
+    animatedActiveScrollableId,
     rootScrollableContentOffsetY,
     contentOffsetY,
     isScrollableRefreshable,
@@ -59,5 +73,41 @@ export const useScrollableSetter = (
   ]);
 
   // effects
+  useEffect(() => {
+    if (id === undefined) {
+      return;
+    }
+
+    const nodeId = findNodeHandle(ref.current);
+    if (!nodeId) {
+      console.warn(`Couldn't find the scrollable node handle id!`);
+      return;
+    }
+
+    isContentHeightFixed.value = false;
+    registerScrollable({
+      id,
+      ref: {
+        id: nodeId,
+        node: ref,
+      },
+      type,
+      refreshable,
+      contentOffsetY,
+    });
+
+    return () => {
+      unregisterScrollable(id, ref);
+    };
+  }, [
+    id,
+    ref,
+    type,
+    refreshable,
+    contentOffsetY,
+    isContentHeightFixed,
+    registerScrollable,
+    unregisterScrollable,
+  ]);
   useFocusHook(handleSettingScrollable);
 };
@@ -0,0 +1,69 @@
+import { useEffect } from 'react';
+import { useSharedValue } from 'react-native-reanimated';
+import { KEYBOARD_STATE } from '../constants';
+import type { KeyboardProviderState } from '../types';
+
+type VisualViewport = {
+  height: number;
+  offsetTop: number;
+  addEventListener: (type: string, listener: () => void) => void;
+  removeEventListener: (type: string, listener: () => void) => void;
+};
+
+/**
+ * The minimum viewport overlap to be considered as a keyboard,
+ * to ignore the browser toolbars collapsing and expanding.
+ */
+const KEYBOARD_MIN_HEIGHT = 100;
+
+/**
+ * Provides the keyboard state on web from the `VisualViewport` API,
+ * which is resized on every frame of the keyboard animation.
+ */
+export const useVisualViewportKeyboardProvider = (): KeyboardProviderState => {
+  //#region variables
+  const state = useSharedValue<KEYBOARD_STATE>(KEYBOARD_STATE.UNDETERMINED);
+  const height = useSharedValue(0);
+  //#endregion
+
+  //#region effects
+  useEffect(() => {
+    // @ts-ignore
+    const _window = typeof window !== 'undefined' ? window : undefined;
+    const viewport: VisualViewport | undefined = _window?.visualViewport;
+    if (!viewport) {
+      return;
+    }
+
+    function handleOnViewportChange() {
+      if (!viewport) {
+        return;
+      }
+
+      const keyboardHeight = Math.max(
+        0,
+        _window.innerHeight - viewport.height - viewport.offsetTop
+      );
+      const isKeyboardShown = keyboardHeight >= KEYBOARD_MIN_HEIGHT;
+
+      height.value = isKeyboardShown ? keyboardHeight : 0;
+      state.value = isKeyboardShown
+        ? KEYBOARD_STATE.SHOWN
+        : KEYBOARD_STATE.HIDDEN;
+    }
+
+    viewport.addEventListener('resize', handleOnViewportChange);
+    viewport.addEventListener('scroll', handleOnViewportChange);
+    return () => {
+      viewport.removeEventListener('resize', handleOnViewportChange);
+      viewport.removeEventListener('scroll', handleOnViewportChange);
+    };
+  }, [state, height]);
+  //#endregion
+
+  return {
+    state,
+    height,
+    isFrameAccurate: true,
+  };
+};
@@ -8,6 +8,15 @@ export { default as BottomSheetModalProvider } from './components/bottomSheetMod
 //#region hooks
 export { useBottomSheet } from './hooks/useBottomSheet';
 export { useBottomSheetModal } from './hooks/useBottomSheetModal';
+export { useBottomSheetModalStack } from './hooks/useBottomSheetModalStack';
+export { useBottomSheetEvents } from './hooks/useBottomSheetEvents';
+export { useBottomSheetAnimatedValues } from './hooks/useBottomSheetAnimatedValues';
+export {
+  useBottomSheetAnimatedProgress,
+  useBottomSheetClosedDistance,
+  useBottomSheetOvershoot,
+  useBottomSheetDragVelocity,
+} from './hooks/useBottomSheetAnimatedProgress';
 export { useBottomSheetSpringConfigs } from './hooks/useBottomSheetSpringConfigs';
 export { useBottomSheetTimingConfigs } from './hooks/useBottomSheetTimingConfigs';
 export { useBottomSheetInternal } from './hooks/useBottomSheetInternal';
@@ -17,6 +26,9 @@ export { useGestureEventsHandlersDefault } from './hooks/useGestureEventsHandler
 export { useBottomSheetGestureHandlers } from './hooks/useBottomSheetGestureHandlers';
 export { useScrollHandler } from './hooks/useScrollHandler';
 export { useScrollableSetter } from './hooks/useScrollableSetter';
+export { useKeyboardEventsProvider } from './hooks/useKeyboardEventsProvider';
+export { useAnimatedKeyboardProvider } from './hooks/useAnimatedKeyboardProvider';
+export { useVisualViewportKeyboardProvider } from './hooks/useVisualViewportKeyboardProvider';
 //#endregion
 
 //#region components
@@ -34,6 +46,8 @@ export { default as BottomSheetTextInput } from './components/bottomSheetTextInp
 export { default as BottomSheetBackdrop } from './components/bottomSheetBackdrop';
 export { default as BottomSheetFooter } from './components/bottomSheetFooter';
 export { default as BottomSheetFooterContainer } from './components/bottomSheetFooterContainer/BottomSheetFooterContainer';
+export { default as BottomSheetOverlay } from './components/bottomSheetOverlay';
+export { default as BottomSheetHorizontalScrollView } from './components/bottomSheetHorizontalScrollView';
 
 // touchables
 import BottomSheetTouchable from './components/touchables';
@@ -49,10 +63,17 @@ export { createBottomSheetScrollableComponent } from './components/bottomSheetSc
 //#region types
 export type { BottomSheetProps } from './components/bottomSheet';
 export type { BottomSheetModalProps } from './components/bottomSheetModal';
+export type {
+  BottomSheetModalProviderProps,
+  BottomSheetModalStackItem,
+} from './components/bottomSheetModalProvider';
 export type { BottomSheetHandleProps } from './components/bottomSheetHandle';
+export type { BottomSheetHeaderProps } from './components/bottomSheetHeaderContainer';
 export type { BottomSheetBackgroundProps } from './components/bottomSheetBackground';
 export type { BottomSheetBackdropProps } from './components/bottomSheetBackdrop';
 export type { BottomSheetFooterProps } from './components/bottomSheetFooter';
+export type { BottomSheetOverlayProps } from './components/bottomSheetOverlay';
+export type { BottomSheetHorizontalScrollViewProps } from './components/bottomSheetHorizontalScrollView';
 
 export type {
   BottomSheetFlatListMethods,
@@ -65,12 +86,31 @@ export type {
 export type {
   ScrollEventsHandlersHookType,
   GestureEventsHandlersHookType,
+  KeyboardProviderHookType,
+  KeyboardProviderState,
   ScrollEventHandlerCallbackType,
   GestureEventHandlerCallbackType,
+  BottomSheetModalParamList,
+  SnapStrategy,
+  SnapStrategyParams,
+  SnapStrategyWorklet,
+  SnapPoint,
+  SnapPointConfig,
+  SnapPointWorklet,
+  SnapPointExpressionParams,
+  BottomSheetEvent,
+  BottomSheetEventType,
+  BottomSheetEventListener,
+  BottomSheetPersistedState,
+  BottomSheetAnimatedValues,
+  BottomSheetAnimatedValuesListener,
+  BottomSheetGestureVariables,
+  BottomSheetStorageAdapter,
 } from './types';
 //#endregion
 
 //#region utilities
 export * from './constants';
 export { enableLogging } from './utilities/logger';
+export { interpolateSheet } from './utilities/interpolateSheet';
 //#endregion
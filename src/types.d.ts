@@ -2,6 +2,7 @@ import type React from 'react';
 import type {
   AccessibilityProps,
   FlatList,
+  KeyboardEventEasing,
   NativeScrollEvent,
   NativeSyntheticEvent,
   ScrollView,
@@ -20,9 +21,40 @@ import type {
   WithSpringConfig,
   WithTimingConfig,
 } from 'react-native-reanimated';
-import type { GESTURE_SOURCE } from './constants';
+import type {
+  ANIMATION_SOURCE,
+  DRAG_DIRECTION,
+  GESTURE_SOURCE,
+  KEYBOARD_BEHAVIOR,
+  KEYBOARD_STATE,
+  SCROLLABLE_TYPE,
+  SHEET_STATE,
+} from './constants';
 
 //#region Methods
+/**
+ * Result of the imperative methods promises, which resolve once
+ * the sheet animation ends or gets interrupted.
+ */
+export interface BottomSheetAnimationResult {
+  /**
+   * Whether the animation reached its destination.
+   */
+  finished: boolean;
+  /**
+   * Sheet snap point index, when the animation ended.
+   */
+  index: number;
+  /**
+   * Sheet position, when the animation ended.
+   */
+  position: number;
+  /**
+   * The animation source which interrupted the animation, if not finished.
+   */
+  interruptedBy?: ANIMATION_SOURCE;
+}
+
 export interface BottomSheetMethods {
   /**
    * Snap to one of the provided points from `snapPoints`.
@@ -35,10 +67,23 @@ export interface BottomSheetMethods {
   snapToIndex: (
     index: number,
     animationConfigs?: WithSpringConfig | WithTimingConfig
-  ) => void;
+  ) => Promise<BottomSheetAnimationResult>;
+  /**
+   * Snap to one of the provided points from `snapPoints` by its `id`.
+   * @param id snap point id.
+   * @param animationConfigs snap animation configs.
+   *
+   * @see {SnapPointConfig}
+   * @see {WithSpringConfig}
+   * @see {WithTimingConfig}
+   */
+  snapToId: (
+    id: string,
+    animationConfigs?: WithSpringConfig | WithTimingConfig
+  ) => Promise<BottomSheetAnimationResult>;
   /**
    * Snap to a position out of provided  `snapPoints`.
-   * @param position position in pixel or percentage.
+   * @param position position in pixel, percentage or expression.
    * @param animationConfigs snap animation configs.
    *
    * @see {WithSpringConfig}
@@ -55,7 +100,9 @@ export interface BottomSheetMethods {
    * @see {WithSpringConfig}
    * @see {WithTimingConfig}
    */
-  expand: (animationConfigs?: WithSpringConfig | WithTimingConfig) => void;
+  expand: (
+    animationConfigs?: WithSpringConfig | WithTimingConfig
+  ) => Promise<BottomSheetAnimationResult>;
   /**
    * Snap to the minimum provided point from `snapPoints`.
    * @param animationConfigs snap animation configs.
@@ -63,7 +110,9 @@ export interface BottomSheetMethods {
    * @see {WithSpringConfig}
    * @see {WithTimingConfig}
    */
-  collapse: (animationConfigs?: WithSpringConfig | WithTimingConfig) => void;
+  collapse: (
+    animationConfigs?: WithSpringConfig | WithTimingConfig
+  ) => Promise<BottomSheetAnimationResult>;
   /**
    * Close the bottom sheet.
    * @param animationConfigs snap animation configs.
@@ -71,7 +120,9 @@ export interface BottomSheetMethods {
    * @see {WithSpringConfig}
    * @see {WithTimingConfig}
    */
-  close: (animationConfigs?: WithSpringConfig | WithTimingConfig) => void;
+  close: (
+    animationConfigs?: WithSpringConfig | WithTimingConfig
+  ) => Promise<BottomSheetAnimationResult>;
   /**
    * Force close the bottom sheet, this prevent any interruptions till the sheet is closed.
    * @param animationConfigs snap animation configs.
@@ -79,7 +130,20 @@ export interface BottomSheetMethods {
    * @see {WithSpringConfig}
    * @see {WithTimingConfig}
    */
-  forceClose: (animationConfigs?: WithSpringConfig | WithTimingConfig) => void;
+  forceClose: (
+    animationConfigs?: WithSpringConfig | WithTimingConfig
+  ) => Promise<BottomSheetAnimationResult>;
+  /**
+   * Subscribe to the sheet animated values, the listener is called with
+   * the values once the sheet mounts, and with `undefined` once it unmounts.
+   * @param listener animated values listener.
+   * @returns unsubscribe function.
+   *
+   * @see {BottomSheetAnimatedValues}
+   */
+  subscribeToAnimatedValues?: (
+    listener: BottomSheetAnimatedValuesListener
+  ) => () => void;
 }
 
 // biome-ignore lint/suspicious/noExplicitAny: Using 'any' allows users to define their own strict types for 'data' property.
@@ -88,7 +152,7 @@ export interface BottomSheetModalMethods<T = any> extends BottomSheetMethods {
    * Mount and present the bottom sheet modal to the initial snap point.
    * @param data to be passed to the modal.
    */
-  present: (data?: T) => void;
+  present: (data?: T) => Promise<BottomSheetAnimationResult>;
   /**
    * Close and unmount the bottom sheet modal.
    * @param animationConfigs snap animation configs.
@@ -96,10 +160,40 @@ export interface BottomSheetModalMethods<T = any> extends BottomSheetMethods {
    * @see {WithSpringConfig}
    * @see {WithTimingConfig}
    */
-  dismiss: (animationConfigs?: WithSpringConfig | WithTimingConfig) => void;
+  dismiss: (
+    animationConfigs?: WithSpringConfig | WithTimingConfig
+  ) => Promise<BottomSheetAnimationResult>;
 }
 //#endregion
 
+//#region modal routing
+/**
+ * A map of registered modal names to their `data` types,
+ * use `undefined` for modals that do not accept any data.
+ *
+ * @example
+ * type ModalParamList = {
+ *   Profile: { userId: string };
+ *   Settings: undefined;
+ * };
+ *
+ * const { present } = useBottomSheetModal<ModalParamList>();
+ * present('Profile', { userId: '1' });
+ */
+export type BottomSheetModalParamList = Record<string, object | undefined>;
+
+/**
+ * Arguments of presenting a registered modal, where `data` is only
+ * optional when the modal param list allows `undefined`.
+ */
+export type BottomSheetModalPresentArgs<
+  ParamList extends BottomSheetModalParamList,
+  Name extends keyof ParamList,
+> = undefined extends ParamList[Name]
+  ? [data?: ParamList[Name]]
+  : [data: ParamList[Name]];
+//#endregion
+
 export interface BottomSheetVariables {
   /**
    * Current sheet position index.
@@ -113,12 +207,376 @@ export interface BottomSheetVariables {
   animatedPosition: SharedValue<number>;
 }
 
+export interface BottomSheetGestureVariables {
+  /**
+   * Current drag velocity in pixels per second, positive
+   * when dragging towards the closed position.
+   * @type SharedValue<number>
+   */
+  animatedVelocity: SharedValue<number>;
+  /**
+   * Current drag direction, `NONE` when the sheet is not dragged.
+   * @type SharedValue<DRAG_DIRECTION>
+   */
+  animatedDragDirection: SharedValue<DRAG_DIRECTION>;
+}
+
+/**
+ * The sheet animated values, which drive the animated progress hooks.
+ */
+export interface BottomSheetAnimatedValues
+  extends BottomSheetVariables,
+    BottomSheetGestureVariables {
+  /**
+   * Normalized snap points positions.
+   * @type SharedValue<number[]>
+   */
+  animatedSnapPoints: SharedValue<number[]>;
+  /**
+   * The sheet position when closed.
+   * @type SharedValue<number>
+   */
+  animatedClosedPosition: SharedValue<number>;
+  /**
+   * The highest snap point position.
+   * @type SharedValue<number>
+   */
+  animatedHighestSnapPoint: SharedValue<number>;
+}
+
+export type BottomSheetAnimatedValuesListener = (
+  values: BottomSheetAnimatedValues | undefined
+) => void;
+
+//#region snap points
+export interface SnapPointExpressionParams {
+  /**
+   * Sheet container height.
+   */
+  containerHeight: number;
+  /**
+   * Sheet content height, measured with `enableDynamicSizing`.
+   */
+  contentHeight: number;
+  handleHeight: number;
+  headerHeight: number;
+  footerHeight: number;
+  keyboardHeight: number;
+  /**
+   * Provided `topInset`, the top safe area.
+   */
+  topInset: number;
+  /**
+   * Provided `bottomInset`, the bottom safe area.
+   */
+  bottomInset: number;
+}
+
+/**
+ * Snap point worklet, which returns the sheet size in pixels.
+ */
+export type SnapPointWorklet = (params: SnapPointExpressionParams) => number;
+
+export interface SnapPointNormalizationParams
+  extends SnapPointExpressionParams {
+  maxDynamicContentSize?: number;
+}
+
+export interface SnapPointConfig {
+  /**
+   * Snap point value in pixels, percentage, expression or a worklet.
+   * @example
+   * value: 200
+   * value: '50%'
+   * value: 'calc(100% - 120)'
+   */
+  value: number | string | SnapPointWorklet;
+  /**
+   * Stable identifier, to snap to the point with `snapToId`
+   * and to be reported in `onChange`.
+   */
+  id?: string;
+  /**
+   * Disable dragging the sheet, while it rests at this snap point.
+   */
+  disableDrag?: boolean;
+  /**
+   * Backdrop opacity, while the sheet rests at this snap point.
+   */
+  backdropOpacity?: number;
+  /**
+   * Announced by the screen reader, when the sheet snaps to this point.
+   */
+  accessibilityLabel?: string;
+  /**
+   * Animation configs used to snap to this point, unless the snap
+   * method was called with its own configs.
+   */
+  animationConfigs?: WithSpringConfig | WithTimingConfig;
+}
+
+/**
+ * A snap point, which could be:
+ * - a number of pixels, e.g. `200`.
+ * - a percentage of the container height, e.g. `'50%'`.
+ * - the dynamic content size, `'content'`.
+ * - an expression, e.g. `'calc(100% - 120)'`, `'min(400, 60%)'` or
+ * `'calc(100% - env(safe-area-inset-top))'`.
+ * - a worklet, which returns the sheet size in pixels.
+ * - a snap point config.
+ */
+export type SnapPoint = number | string | SnapPointWorklet | SnapPointConfig;
+//#endregion
+
+//#region snap strategies
+export interface SnapStrategyParams {
+  /**
+   * Current sheet position, where the gesture ended.
+   */
+  position: number;
+  /**
+   * Sheet position when the gesture started.
+   */
+  initialPosition: number;
+  /**
+   * Gesture velocity on the sheet axis.
+   */
+  velocity: number;
+  /**
+   * Positions the sheet can snap to, including the closed
+   * position when pan down to close is enabled.
+   */
+  points: ReadonlyArray<number>;
+  /**
+   * Normalized snap points positions, ordered by their indices.
+   */
+  snapPoints: ReadonlyArray<number>;
+}
+
+/**
+ * Custom snap strategy worklet, which returns the position to snap to.
+ */
+export type SnapStrategyWorklet = (params: SnapStrategyParams) => number;
+
+export type SnapStrategy =
+  | 'nearest'
+  | 'projected'
+  | 'next-in-direction'
+  | 'threshold'
+  | {
+      type: 'nearest';
+    }
+  | {
+      type: 'projected';
+      /**
+       * Deceleration rate used to project the gesture velocity.
+       * @default 0.995
+       */
+      deceleration?: number;
+    }
+  | {
+      type: 'next-in-direction';
+      /**
+       * Minimum velocity for a gesture to be considered a flick.
+       * @default 500
+       */
+      velocityThreshold?: number;
+    }
+  | {
+      type: 'threshold';
+      /**
+       * Drag distance needed to leave the current snap point, it
+       * could be provided per snap point index.
+       * @default 50
+       */
+      distance?: number | number[];
+    }
+  | SnapStrategyWorklet;
+//#endregion
+
+//#region events
+interface BottomSheetBaseEvent<T extends string> {
+  type: T;
+  /**
+   * The source of the sheet movement.
+   */
+  source: ANIMATION_SOURCE;
+  /**
+   * Snap point index, where the sheet is moving from, on gesture
+   * events this is the animated index.
+   */
+  fromIndex: number;
+  /**
+   * Snap point index, where the sheet is moving to, or `-1`
+   * if the position is out of the snap points.
+   */
+  toIndex: number;
+  /**
+   * Sheet position, where the sheet is moving from.
+   */
+  fromPosition: number;
+  /**
+   * Sheet position, where the sheet is moving to.
+   */
+  toPosition: number;
+}
+
+export type BottomSheetAnimationStartEvent =
+  BottomSheetBaseEvent<'animationStart'>;
+
+export type BottomSheetAnimationEndEvent = BottomSheetBaseEvent<'animationEnd'>;
+
+export interface BottomSheetAnimationInterruptedEvent
+  extends BottomSheetBaseEvent<'animationInterrupted'> {
+  /**
+   * The animation source which interrupted the animation.
+   */
+  interruptedBy: ANIMATION_SOURCE;
+}
+
+export interface BottomSheetGestureStartEvent
+  extends BottomSheetBaseEvent<'gestureStart'> {
+  /**
+   * The component which received the gesture.
+   */
+  gestureSource: GESTURE_SOURCE;
+}
+
+export interface BottomSheetGestureEndEvent
+  extends BottomSheetBaseEvent<'gestureEnd'> {
+  /**
+   * The component which received the gesture.
+   */
+  gestureSource: GESTURE_SOURCE;
+  /**
+   * Gesture velocity on the sheet axis, positive towards closing.
+   */
+  velocity: number;
+}
+
+export interface BottomSheetSheetStateChangeEvent
+  extends BottomSheetBaseEvent<'sheetStateChange'> {
+  fromState: SHEET_STATE;
+  toState: SHEET_STATE;
+}
+
+export interface BottomSheetKeyboardAdjustEvent
+  extends BottomSheetBaseEvent<'keyboardAdjust'> {
+  keyboardState: KEYBOARD_STATE;
+  /**
+   * Keyboard height within the sheet container.
+   */
+  keyboardHeight: number;
+}
+
+export type BottomSheetEvent =
+  | BottomSheetAnimationStartEvent
+  | BottomSheetAnimationEndEvent
+  | BottomSheetAnimationInterruptedEvent
+  | BottomSheetGestureStartEvent
+  | BottomSheetGestureEndEvent
+  | BottomSheetSheetStateChangeEvent
+  | BottomSheetKeyboardAdjustEvent;
+
+export type BottomSheetEventType = BottomSheetEvent['type'];
+
+export type BottomSheetEventListener = (event: BottomSheetEvent) => void;
+//#endregion
+
+//#region keyboard
+/**
+ * Keyboard handling overrides, provided by the focused text input.
+ */
+export interface KeyboardPolicy {
+  /**
+   * The text input id, which set the policy.
+   */
+  id: number;
+  /**
+   * Overrides the sheet `keyboardBehavior`.
+   */
+  keyboardBehavior?: keyof typeof KEYBOARD_BEHAVIOR;
+  /**
+   * Overrides the sheet `keyboardSnapIndex`.
+   */
+  keyboardSnapIndex?: number;
+}
+
+/**
+ * The keyboard state and height, fed by a keyboard provider.
+ */
+export interface KeyboardProviderState {
+  state: SharedValue<KEYBOARD_STATE>;
+  /**
+   * The keyboard height, from the screen bottom edge.
+   */
+  height: SharedValue<number>;
+  /**
+   * Whether the height is updated on every frame of the keyboard
+   * animation, so the sheet follows it instead of animating.
+   */
+  isFrameAccurate: boolean;
+  /**
+   * The keyboard animation easing, used by non frame accurate providers.
+   * @default keyboard
+   */
+  animationEasing?: SharedValue<KeyboardEventEasing>;
+  /**
+   * The keyboard animation duration, used by non frame accurate providers.
+   * @default 500
+   */
+  animationDuration?: SharedValue<number>;
+}
+//#endregion
+
+//#region persistence
+/**
+ * The sheet state, which is persisted by `persistenceKey`.
+ */
+export interface BottomSheetPersistedState {
+  /**
+   * The last settled snap point index, or `-1` if closed.
+   */
+  index: number;
+  /**
+   * The content offset of the registered scrollable.
+   */
+  scrollOffset: number;
+  /**
+   * The presented modal data.
+   */
+  data?: unknown;
+}
+
+/**
+ * Storage used to persist the sheet state, it matches the `AsyncStorage`
+ * interface and could wrap any other storage, like `MMKV`.
+ */
+export interface BottomSheetStorageAdapter {
+  getItem: (
+    key: string
+  ) => string | null | undefined | Promise<string | null | undefined>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+}
+//#endregion
+
 //#region scrollables
 export type Scrollable = FlatList | ScrollView | SectionList;
 export type ScrollableRef = {
   id: number;
   node: React.RefObject<Scrollable>;
 };
+/**
+ * A scrollable registered with a `scrollableId`, it keeps its own
+ * content offset, to be restored when it gets activated.
+ */
+export type RegisteredScrollable = {
+  id: string;
+  ref: ScrollableRef;
+  type: SCROLLABLE_TYPE;
+  refreshable: boolean;
+  contentOffsetY: SharedValue<number>;
+};
 export type ScrollableEvent = (
   event: Pick<NativeSyntheticEvent<NativeScrollEvent>, 'nativeEvent'>
 ) => void;
@@ -129,6 +587,8 @@ export type Primitive = string | number | boolean;
 //#endregion
 
 //#region hooks
+export type KeyboardProviderHookType = () => KeyboardProviderState;
+
 export type GestureEventPayloadType = GestureEventPayload &
   PanGestureHandlerEventPayload;
 
@@ -155,7 +615,12 @@ export type GestureHandlersHookType = (
   onStart: GestureEventHandlerCallbackType,
   onChange: GestureEventHandlerCallbackType,
   onEnd: GestureEventHandlerCallbackType,
-  onFinalize: GestureEventHandlerCallbackType
+  onFinalize: GestureEventHandlerCallbackType,
+  /**
+   * The parent sheet gesture handler, which receives the remaining
+   * gesture once the sheet is dragged past its highest snap point.
+   */
+  parentGestureHandler?: ReturnType<GestureHandlersHookType>
 ) => {
   handleOnStart: (
     event: GestureStateChangeEvent<PanGestureHandlerEventPayload>
@@ -180,7 +645,8 @@ type ScrollEventHandlerCallbackType<C = never> = (
 
 export type ScrollEventsHandlersHookType = (
   ref: React.RefObject<Scrollable>,
-  contentOffsetY: SharedValue<number>
+  contentOffsetY: SharedValue<number>,
+  scrollableId?: string
 ) => {
   handleOnScroll?: ScrollEventHandlerCallbackType;
   handleOnBeginDrag?: ScrollEventHandlerCallbackType;
@@ -0,0 +1,35 @@
+import { describe, expect, it } from '@jest/globals';
+import { Extrapolation } from 'react-native-reanimated';
+import { interpolateSheet } from '../interpolateSheet';
+
+describe('interpolateSheet', () => {
+  it('interpolates the outputs keyed by snap point index', () => {
+    const outputs = { [-1]: 0, 0: 0.5, 1: 1 };
+
+    expect(interpolateSheet(-1, outputs)).toBe(0);
+    expect(interpolateSheet(-0.5, outputs)).toBe(0.25);
+    expect(interpolateSheet(0.5, outputs)).toBe(0.75);
+  });
+
+  it('sorts the output keys', () => {
+    expect(interpolateSheet(0.5, { 1: 100, 0: 0 })).toBe(50);
+  });
+
+  it('clamps outside the provided indexes by default', () => {
+    const outputs = { 0: 0, 1: 100 };
+
+    expect(interpolateSheet(-1, outputs)).toBe(0);
+    expect(interpolateSheet(2, outputs)).toBe(100);
+  });
+
+  it('supports the provided extrapolation', () => {
+    expect(interpolateSheet(2, { 0: 0, 1: 100 }, Extrapolation.EXTEND)).toBe(
+      200
+    );
+  });
+
+  it('handles the empty and the single outputs', () => {
+    expect(interpolateSheet(1, {})).toBe(0);
+    expect(interpolateSheet(1, { 0: 40 })).toBe(40);
+  });
+});
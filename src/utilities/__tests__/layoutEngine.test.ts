@@ -0,0 +1,401 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  INITIAL_CONTAINER_HEIGHT,
+  INITIAL_HANDLE_HEIGHT,
+  INITIAL_SNAP_POINT,
+} from '../../components/bottomSheet/constants';
+import {
+  ANIMATION_SOURCE,
+  KEYBOARD_BEHAVIOR,
+  KEYBOARD_BLUR_BEHAVIOR,
+  KEYBOARD_STATE,
+} from '../../constants';
+import {
+  type LayoutEnginePositionInput,
+  type LayoutEngineSnapPointsInput,
+  computeClosedPosition,
+  computeKeyboardHeightInContainer,
+  computeSnapPoints,
+  computeTargetPosition,
+} from '../layoutEngine';
+
+const CONTAINER_HEIGHT = 1000;
+
+const createSnapPointsInput = (
+  input: Partial<LayoutEngineSnapPointsInput>
+): LayoutEngineSnapPointsInput => ({
+  snapPoints: [],
+  enableDynamicSizing: false,
+  containerHeight: CONTAINER_HEIGHT,
+  contentHeight: 0,
+  handleHeight: 24,
+  headerHeight: 0,
+  footerHeight: 0,
+  keyboardHeight: 0,
+  topInset: 0,
+  bottomInset: 0,
+  ...input,
+});
+
+const createPositionInput = (
+  input: Partial<LayoutEnginePositionInput>
+): LayoutEnginePositionInput => ({
+  source: ANIMATION_SOURCE.KEYBOARD,
+  snapPoints: [750, 500, 100],
+  currentIndex: 1,
+  currentPosition: 500,
+  closedPosition: CONTAINER_HEIGHT,
+  providedIndex: 0,
+  isAnimatedOnMount: true,
+  isInTemporaryPosition: false,
+  isGestureActive: false,
+  keyboardState: KEYBOARD_STATE.SHOWN,
+  keyboardHeightInContainer: 300,
+  keyboardBehavior: KEYBOARD_BEHAVIOR.interactive,
+  keyboardSnapIndex: undefined,
+  keyboardBlurBehavior: KEYBOARD_BLUR_BEHAVIOR.none,
+  isKeyboardResizingContainer: false,
+  ...input,
+});
+
+describe('computeSnapPoints', () => {
+  it('returns the placeholder while the container is not measured', () => {
+    expect(
+      computeSnapPoints(
+        createSnapPointsInput({
+          snapPoints: [200],
+          containerHeight: INITIAL_CONTAINER_HEIGHT,
+        })
+      )
+    ).toEqual({
+      snapPoints: [INITIAL_SNAP_POINT],
+      dynamicSnapPointIndex: -1,
+      snapPointConfigs: [undefined],
+    });
+  });
+
+  it('normalizes numbers, percentages, expressions and worklets', () => {
+    const { snapPoints, dynamicSnapPointIndex } = computeSnapPoints(
+      createSnapPointsInput({
+        snapPoints: [
+          200,
+          '50%',
+          '100% - 100',
+          ({ containerHeight }) => containerHeight - 50,
+        ],
+      })
+    );
+
+    expect(snapPoints).toEqual([800, 500, 100, 50]);
+    expect(dynamicSnapPointIndex).toBe(-1);
+  });
+
+  it('orders the snap point configs by the normalized snap points', () => {
+    const config = { value: '50%', id: 'half', disableDrag: true };
+    const { snapPointConfigs } = computeSnapPoints(
+      createSnapPointsInput({
+        snapPoints: [200, config],
+      })
+    );
+
+    expect(snapPointConfigs).toEqual([undefined, config]);
+  });
+
+  describe('dynamic sizing', () => {
+    it('waits for the handle & content to be measured', () => {
+      expect(
+        computeSnapPoints(
+          createSnapPointsInput({
+            snapPoints: [200],
+            enableDynamicSizing: true,
+            handleHeight: INITIAL_HANDLE_HEIGHT,
+          })
+        ).snapPoints
+      ).toEqual([INITIAL_SNAP_POINT]);
+      expect(
+        computeSnapPoints(
+          createSnapPointsInput({
+            snapPoints: [200],
+            enableDynamicSizing: true,
+            contentHeight: INITIAL_CONTAINER_HEIGHT,
+          })
+        ).snapPoints
+      ).toEqual([INITIAL_SNAP_POINT]);
+    });
+
+    it('inserts the content snap point in order', () => {
+      const { snapPoints, dynamicSnapPointIndex } = computeSnapPoints(
+        createSnapPointsInput({
+          snapPoints: [200, '80%'],
+          enableDynamicSizing: true,
+          contentHeight: 376,
+          headerHeight: 50,
+          footerHeight: 50,
+        })
+      );
+
+      expect(snapPoints).toEqual([800, 500, 200]);
+      expect(dynamicSnapPointIndex).toBe(1);
+    });
+
+    it('does not duplicate a provided snap point', () => {
+      const { snapPoints, dynamicSnapPointIndex } = computeSnapPoints(
+        createSnapPointsInput({
+          snapPoints: [200, 500],
+          enableDynamicSizing: true,
+          contentHeight: 476,
+        })
+      );
+
+      expect(snapPoints).toEqual([800, 500]);
+      expect(dynamicSnapPointIndex).toBe(1);
+    });
+
+    it('caps the content snap point with the max dynamic content size', () => {
+      const { snapPoints } = computeSnapPoints(
+        createSnapPointsInput({
+          enableDynamicSizing: true,
+          contentHeight: 2000,
+          maxDynamicContentSize: 600,
+        })
+      );
+
+      expect(snapPoints).toEqual([400]);
+    });
+
+    it('caps the content snap point with the container height', () => {
+      const { snapPoints } = computeSnapPoints(
+        createSnapPointsInput({
+          enableDynamicSizing: true,
+          contentHeight: 2000,
+        })
+      );
+
+      expect(snapPoints).toEqual([0]);
+    });
+  });
+
+  it('exposes the insets to the expressions', () => {
+    const { snapPoints } = computeSnapPoints(
+      createSnapPointsInput({
+        snapPoints: [
+          'calc(100% - env(safe-area-inset-top) - env(safe-area-inset-bottom))',
+        ],
+        topInset: 40,
+        bottomInset: 20,
+      })
+    );
+
+    expect(snapPoints).toEqual([60]);
+  });
+});
+
+describe('computeClosedPosition', () => {
+  const input = {
+    containerHeight: CONTAINER_HEIGHT,
+    topInset: 40,
+    bottomInset: 20,
+    edge: 'bottom',
+  } as const;
+
+  it('returns the container height when attached', () => {
+    expect(computeClosedPosition({ ...input, detached: false })).toBe(
+      CONTAINER_HEIGHT
+    );
+  });
+
+  describe('detached', () => {
+    it('pushes the sheet by the anchored edge inset', () => {
+      expect(computeClosedPosition({ ...input, detached: true })).toBe(
+        CONTAINER_HEIGHT + 20
+      );
+      expect(
+        computeClosedPosition({ ...input, edge: 'top', detached: true })
+      ).toBe(CONTAINER_HEIGHT + 40);
+    });
+
+    it('ignores the vertical insets on horizontal edges', () => {
+      expect(
+        computeClosedPosition({ ...input, edge: 'left', detached: true })
+      ).toBe(CONTAINER_HEIGHT);
+    });
+  });
+});
+
+describe('computeKeyboardHeightInContainer', () => {
+  it('returns zero when the keyboard is hidden', () => {
+    expect(
+      computeKeyboardHeightInContainer({
+        keyboardHeight: 0,
+        containerBottomOffset: 34,
+        bottomInset: 34,
+        modal: false,
+      })
+    ).toBe(0);
+  });
+
+  it('subtracts the container bottom offset', () => {
+    expect(
+      computeKeyboardHeightInContainer({
+        keyboardHeight: 300,
+        containerBottomOffset: 34,
+        bottomInset: 0,
+        modal: false,
+      })
+    ).toBe(266);
+  });
+
+  it('subtracts the bottom inset from the modal container offset', () => {
+    expect(
+      computeKeyboardHeightInContainer({
+        keyboardHeight: 300,
+        containerBottomOffset: 0,
+        bottomInset: 34,
+        modal: true,
+      })
+    ).toBe(266);
+    expect(
+      computeKeyboardHeightInContainer({
+        keyboardHeight: 300,
+        containerBottomOffset: 34,
+        bottomInset: 34,
+        modal: true,
+      })
+    ).toBe(300);
+  });
+});
+
+describe('computeTargetPosition', () => {
+  describe('keyboard', () => {
+    it('moves above the keyboard with the interactive behavior', () => {
+      expect(computeTargetPosition(createPositionInput({}))).toEqual({
+        position: 0,
+        isInTemporaryPosition: true,
+      });
+      expect(
+        computeTargetPosition(
+          createPositionInput({ snapPoints: [750, 500, 400] })
+        )
+      ).toEqual({
+        position: 100,
+        isInTemporaryPosition: true,
+      });
+    });
+
+    it('keeps the position when the container is resized by the keyboard', () => {
+      expect(
+        computeTargetPosition(
+          createPositionInput({ isKeyboardResizingContainer: true })
+        )
+      ).toEqual({
+        position: 500,
+        isInTemporaryPosition: false,
+      });
+    });
+
+    it('extends to the highest snap point with the extend behavior', () => {
+      expect(
+        computeTargetPosition(
+          createPositionInput({ keyboardBehavior: KEYBOARD_BEHAVIOR.extend })
+        )
+      ).toEqual({
+        position: 100,
+        isInTemporaryPosition: false,
+      });
+    });
+
+    it('fills the parent with the fill parent behavior', () => {
+      expect(
+        computeTargetPosition(
+          createPositionInput({
+            keyboardBehavior: KEYBOARD_BEHAVIOR.fillParent,
+          })
+        )
+      ).toEqual({
+        position: 0,
+        isInTemporaryPosition: true,
+      });
+    });
+
+    it('snaps to the keyboard snap index with the snap to index behavior', () => {
+      expect(
+        computeTargetPosition(
+          createPositionInput({
+            keyboardBehavior: KEYBOARD_BEHAVIOR.snapToIndex,
+            keyboardSnapIndex: 1,
+          })
+        )
+      ).toEqual({
+        position: 500,
+        isInTemporaryPosition: false,
+      });
+      expect(
+        computeTargetPosition(
+          createPositionInput({
+            keyboardBehavior: KEYBOARD_BEHAVIOR.snapToIndex,
+            keyboardSnapIndex: 5,
+          })
+        ).position
+      ).toBe(100);
+    });
+
+    it('restores the current snap point with the restore blur behavior', () => {
+      expect(
+        computeTargetPosition(
+          createPositionInput({
+            keyboardState: KEYBOARD_STATE.HIDDEN,
+            keyboardBlurBehavior: KEYBOARD_BLUR_BEHAVIOR.restore,
+            isInTemporaryPosition: true,
+            currentPosition: 0,
+          })
+        )
+      ).toEqual({
+        position: 500,
+        isInTemporaryPosition: false,
+      });
+    });
+
+    it('stays in the temporary position without the restore blur behavior', () => {
+      expect(
+        computeTargetPosition(
+          createPositionInput({
+            keyboardState: KEYBOARD_STATE.HIDDEN,
+            isInTemporaryPosition: true,
+            currentPosition: 0,
+          })
+        )
+      ).toEqual({
+        position: 0,
+        isInTemporaryPosition: true,
+      });
+    });
+  });
+
+  it('returns the provided index position before animating on mount', () => {
+    const input = createPositionInput({
+      source: ANIMATION_SOURCE.MOUNT,
+      keyboardState: KEYBOARD_STATE.UNDETERMINED,
+      isAnimatedOnMount: false,
+    });
+
+    expect(computeTargetPosition(input).position).toBe(750);
+    expect(
+      computeTargetPosition({ ...input, providedIndex: -1 }).position
+    ).toBe(CONTAINER_HEIGHT);
+  });
+
+  it('returns the current index position', () => {
+    expect(
+      computeTargetPosition(
+        createPositionInput({
+          source: ANIMATION_SOURCE.CONTAINER_RESIZE,
+          keyboardState: KEYBOARD_STATE.UNDETERMINED,
+          currentIndex: 2,
+        })
+      )
+    ).toEqual({
+      position: 100,
+      isInTemporaryPosition: false,
+    });
+  });
+});
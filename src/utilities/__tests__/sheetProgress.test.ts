@@ -0,0 +1,84 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  type SheetProgressInput,
+  computeClosedDistance,
+  computeOvershoot,
+  computeSheetProgress,
+} from '../sheetProgress';
+
+const createProgressInput = (
+  input: Partial<SheetProgressInput>
+): SheetProgressInput => ({
+  position: 500,
+  snapPoints: [750, 500, 100],
+  closedPosition: 1000,
+  fromIndex: 0,
+  toIndex: 2,
+  ...input,
+});
+
+describe('computeSheetProgress', () => {
+  it('normalizes the position between the snap points', () => {
+    expect(computeSheetProgress(createProgressInput({ position: 750 }))).toBe(
+      0
+    );
+    expect(computeSheetProgress(createProgressInput({ position: 425 }))).toBe(
+      0.5
+    );
+    expect(computeSheetProgress(createProgressInput({ position: 100 }))).toBe(
+      1
+    );
+  });
+
+  it('clamps the progress outside the snap points', () => {
+    expect(computeSheetProgress(createProgressInput({ position: 900 }))).toBe(
+      0
+    );
+    expect(computeSheetProgress(createProgressInput({ position: 50 }))).toBe(1);
+  });
+
+  it('supports the reversed and the closed indexes', () => {
+    expect(
+      computeSheetProgress(
+        createProgressInput({ position: 600, fromIndex: 1, toIndex: -1 })
+      )
+    ).toBe(0.2);
+    expect(
+      computeSheetProgress(
+        createProgressInput({ position: 600, fromIndex: -1, toIndex: 1 })
+      )
+    ).toBe(0.8);
+  });
+
+  it('returns 0 for the missing or equal snap points', () => {
+    expect(computeSheetProgress(createProgressInput({ toIndex: 3 }))).toBe(0);
+    expect(computeSheetProgress(createProgressInput({ snapPoints: [] }))).toBe(
+      0
+    );
+    expect(
+      computeSheetProgress(createProgressInput({ fromIndex: 1, toIndex: 1 }))
+    ).toBe(0);
+  });
+});
+
+describe('computeClosedDistance', () => {
+  it('returns the distance to the closed position', () => {
+    expect(computeClosedDistance(600, 1000)).toBe(400);
+  });
+
+  it('returns 0 past the closed position', () => {
+    expect(computeClosedDistance(1000, 1000)).toBe(0);
+    expect(computeClosedDistance(1100, 1000)).toBe(0);
+  });
+});
+
+describe('computeOvershoot', () => {
+  it('returns the distance beyond the highest snap point', () => {
+    expect(computeOvershoot(70, 100)).toBe(30);
+  });
+
+  it('returns 0 below the highest snap point', () => {
+    expect(computeOvershoot(100, 100)).toBe(0);
+    expect(computeOvershoot(300, 100)).toBe(0);
+  });
+});
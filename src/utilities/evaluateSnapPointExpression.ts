@@ -0,0 +1,190 @@
+import type { SnapPointNormalizationParams } from '../types';
+
+interface SnapPointExpressionResult {
+  /**
+   * The sheet size in pixels, or `NaN` if the expression is invalid.
+   */
+  value: number;
+  error?: string;
+}
+
+/**
+ * Evaluates a snap point expression into the sheet size in pixels.
+ *
+ * It supports pixels `120` or `120px`, percentages of the container
+ * height `50%`, the dynamic content size `content`, the safe area insets
+ * `env(safe-area-inset-top)` & `env(safe-area-inset-bottom)`, the `calc()`,
+ * `min()` and `max()` functions, and the `+ - * /` operators.
+ */
+export const evaluateSnapPointExpression = (
+  expression: string,
+  params: SnapPointNormalizationParams
+): SnapPointExpressionResult => {
+  'worklet';
+  let cursor = 0;
+  let error: string | undefined;
+
+  const fail = (message: string) => {
+    if (error === undefined) {
+      error = message;
+    }
+    return Number.NaN;
+  };
+  const peek = () => {
+    while (expression[cursor] === ' ') {
+      cursor++;
+    }
+    return expression[cursor];
+  };
+  const consume = (char: string) => {
+    if (peek() !== char) {
+      return false;
+    }
+    cursor++;
+    return true;
+  };
+  const expect = (char: string) => {
+    if (!consume(char)) {
+      fail(`expected '${char}' at position ${cursor}`);
+    }
+  };
+  const isDigit = (char: string) => char >= '0' && char <= '9';
+  const readIdentifier = (allowDash: boolean) => {
+    const start = cursor;
+    while (
+      cursor < expression.length &&
+      ((expression[cursor] >= 'a' && expression[cursor] <= 'z') ||
+        (allowDash && expression[cursor] === '-'))
+    ) {
+      cursor++;
+    }
+    return expression.slice(start, cursor);
+  };
+
+  const parseArguments = () => {
+    expect('(');
+    const values = [parseExpression()];
+    while (consume(',')) {
+      values.push(parseExpression());
+    }
+    expect(')');
+    return values;
+  };
+  const parseFactor = (): number => {
+    const char = peek();
+    if (char === undefined) {
+      return fail('unexpected end of expression');
+    }
+
+    if (consume('(')) {
+      const value = parseExpression();
+      expect(')');
+      return value;
+    }
+
+    if (consume('-')) {
+      return -parseFactor();
+    }
+
+    if (isDigit(char) || char === '.') {
+      const start = cursor;
+      while (isDigit(expression[cursor]) || expression[cursor] === '.') {
+        cursor++;
+      }
+      const value = Number(expression.slice(start, cursor));
+      if (Number.isNaN(value)) {
+        return fail(`invalid number '${expression.slice(start, cursor)}'`);
+      }
+
+      if (expression[cursor] === '%') {
+        cursor++;
+        return (value * params.containerHeight) / 100;
+      }
+
+      if (expression.startsWith('px', cursor)) {
+        cursor += 2;
+      }
+      return value;
+    }
+
+    const identifier = readIdentifier(false);
+    switch (identifier) {
+      case 'content':
+        return Math.min(
+          params.contentHeight +
+            params.handleHeight +
+            params.headerHeight +
+            params.footerHeight,
+          params.maxDynamicContentSize !== undefined
+            ? params.maxDynamicContentSize
+            : params.containerHeight
+        );
+      case 'calc': {
+        expect('(');
+        const value = parseExpression();
+        expect(')');
+        return value;
+      }
+      case 'min':
+        return Math.min(...parseArguments());
+      case 'max':
+        return Math.max(...parseArguments());
+      case 'env': {
+        expect('(');
+        peek();
+        const name = readIdentifier(true);
+        expect(')');
+        if (name === 'safe-area-inset-top') {
+          return params.topInset;
+        }
+        if (name === 'safe-area-inset-bottom') {
+          return params.bottomInset;
+        }
+        return fail(`unknown environment variable '${name}'`);
+      }
+      default:
+        return fail(
+          identifier
+            ? `unknown keyword '${identifier}'`
+            : `unexpected '${char}' at position ${cursor}`
+        );
+    }
+  };
+  const parseTerm = () => {
+    let value = parseFactor();
+    while (error === undefined) {
+      if (consume('*')) {
+        value *= parseFactor();
+      } else if (consume('/')) {
+        value /= parseFactor();
+      } else {
+        break;
+      }
+    }
+    return value;
+  };
+  const parseExpression = () => {
+    let value = parseTerm();
+    while (error === undefined) {
+      if (consume('+')) {
+        value += parseTerm();
+      } else if (consume('-')) {
+        value -= parseTerm();
+      } else {
+        break;
+      }
+    }
+    return value;
+  };
+
+  const value = parseExpression();
+  if (error === undefined && peek() !== undefined) {
+    fail(`unexpected '${peek()}' at position ${cursor}`);
+  }
+
+  if (error === undefined && !Number.isFinite(value)) {
+    fail('expression does not evaluate to a finite number');
+  }
+
+  return error === undefined ? { value } : { value: Number.NaN, error };
+};
@@ -0,0 +1,16 @@
+import { DRAG_DIRECTION } from '../constants';
+
+/**
+ * Map a normalized velocity, where positive is towards
+ * the closed position, to its drag direction.
+ */
+export const getDragDirection = (velocity: number) => {
+  'worklet';
+  if (velocity > 0) {
+    return DRAG_DIRECTION.CLOSING;
+  }
+  if (velocity < 0) {
+    return DRAG_DIRECTION.OPENING;
+  }
+  return DRAG_DIRECTION.NONE;
+};
@@ -1,5 +1,20 @@
 export { normalizeSnapPoint } from './normalizeSnapPoint';
+export { evaluateSnapPointExpression } from './evaluateSnapPointExpression';
+export {
+  computeSnapPoints,
+  hasDynamicSnapPoints,
+  computeClosedPosition,
+  computeKeyboardHeightInContainer,
+  computeTargetPosition,
+  computeSheetState,
+} from './layoutEngine';
 export { animate } from './animate';
+export { interpolateSheet } from './interpolateSheet';
+export {
+  computeSheetProgress,
+  computeClosedDistance,
+  computeOvershoot,
+} from './sheetProgress';
 export { getKeyboardAnimationConfigs } from './getKeyboardAnimationConfigs';
 export { print } from './logger';
 export { noop, workletNoop } from './noop';
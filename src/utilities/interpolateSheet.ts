@@ -0,0 +1,44 @@
+import {
+  Extrapolation,
+  type ExtrapolationType,
+  interpolate,
+} from 'react-native-reanimated';
+
+/**
+ * Interpolates the sheet animated index into the outputs keyed
+ * by snap point index, where `-1` is the closed position.
+ *
+ * @example
+ * const style = useAnimatedStyle(() => ({
+ *   opacity: interpolateSheet(animatedIndex.value, { 0: 0, 1: 1 }),
+ * }));
+ *
+ * @param index the sheet animated index value.
+ * @param outputs the output values keyed by snap point index.
+ * @param extrapolation the extrapolation outside the provided indexes.
+ */
+export const interpolateSheet = (
+  index: number,
+  outputs: Record<number, number>,
+  extrapolation: ExtrapolationType = Extrapolation.CLAMP
+) => {
+  'worklet';
+  const indexes = Object.keys(outputs)
+    .map(Number)
+    .sort((a, b) => a - b);
+
+  if (indexes.length === 0) {
+    return 0;
+  }
+
+  if (indexes.length === 1) {
+    return outputs[indexes[0]];
+  }
+
+  return interpolate(
+    index,
+    indexes,
+    indexes.map(key => outputs[key]),
+    extrapolation
+  );
+};
@@ -0,0 +1,453 @@
+import {
+  INITIAL_CONTAINER_HEIGHT,
+  INITIAL_HANDLE_HEIGHT,
+  INITIAL_SNAP_POINT,
+} from '../components/bottomSheet/constants';
+import {
+  ANIMATION_SOURCE,
+  KEYBOARD_BEHAVIOR,
+  KEYBOARD_BLUR_BEHAVIOR,
+  KEYBOARD_STATE,
+  SHEET_EDGE,
+  SHEET_STATE,
+} from '../constants';
+import type {
+  SnapPoint,
+  SnapPointConfig,
+  SnapPointNormalizationParams,
+} from '../types';
+import { normalizeSnapPoint } from './normalizeSnapPoint';
+
+/**
+ * The bottom sheet layout engine.
+ *
+ * It holds the snapping & layout math as plain functions of the measured
+ * sizes and the provided props, so it can be evaluated out of the
+ * component, while `BottomSheet` feeds it with its animated values.
+ */
+
+//#region snap points
+export interface LayoutEngineSnapPointsInput
+  extends SnapPointNormalizationParams {
+  snapPoints: SnapPoint[];
+  enableDynamicSizing?: boolean;
+}
+
+export interface LayoutEngineSnapPointsOutput {
+  /**
+   * Normalized snap points positions, sorted from the lowest to the
+   * highest snap point.
+   */
+  snapPoints: number[];
+  /**
+   * The dynamic snap point index, or `-1` if not applicable.
+   */
+  dynamicSnapPointIndex: number;
+  /**
+   * The provided snap point configs, ordered by the normalized snap points
+   * indices, where plain values and the dynamic snap point have no config.
+   */
+  snapPointConfigs: Array<SnapPointConfig | undefined>;
+}
+
+/**
+ * Normalizes the provided snap points into positions, and inserts the
+ * dynamic sizing snap point when enabled.
+ *
+ * It returns the initial snap point placeholder while the layout is
+ * not measured yet.
+ */
+export const computeSnapPoints = ({
+  snapPoints,
+  enableDynamicSizing,
+  ...params
+}: LayoutEngineSnapPointsInput): LayoutEngineSnapPointsOutput => {
+  'worklet';
+  const pending = {
+    snapPoints: [INITIAL_SNAP_POINT],
+    dynamicSnapPointIndex: -1,
+    snapPointConfigs: [undefined],
+  };
+
+  // early exit, if container layout is not ready
+  if (params.containerHeight === INITIAL_CONTAINER_HEIGHT) {
+    return pending;
+  }
+
+  // normalized all provided snap points, converting percentage,
+  // expression and worklet values into absolute values.
+  const normalizedSnapPoints = snapPoints.map(snapPoint =>
+    normalizeSnapPoint(snapPoint, params)
+  );
+  let dynamicSnapPointIndex = -1;
+
+  if (enableDynamicSizing) {
+    // early exit, if handle or content heights are not calculated yet.
+    if (
+      params.handleHeight === INITIAL_HANDLE_HEIGHT ||
+      params.contentHeight === INITIAL_CONTAINER_HEIGHT
+    ) {
+      return pending;
+    }
+
+    // calculate a new snap point based on content height.
+    const dynamicSnapPoint =
+      params.containerHeight -
+      Math.min(
+        params.contentHeight +
+          params.handleHeight +
+          params.headerHeight +
+          params.footerHeight,
+        params.maxDynamicContentSize !== undefined
+          ? params.maxDynamicContentSize
+          : params.containerHeight
+      );
+
+    // push dynamic snap point into the normalized snap points,
+    // only if it does not exists in the provided list already.
+    if (!normalizedSnapPoints.includes(dynamicSnapPoint)) {
+      normalizedSnapPoints.push(dynamicSnapPoint);
+    }
+
+    // sort all snap points.
+    normalizedSnapPoints.sort((a, b) => b - a);
+
+    // locate the dynamic snap point index.
+    dynamicSnapPointIndex = normalizedSnapPoints.indexOf(dynamicSnapPoint);
+  }
+
+  const snapPointConfigs = normalizedSnapPoints.map(normalizedSnapPoint => {
+    const snapPoint = snapPoints.find(
+      item => normalizeSnapPoint(item, params) === normalizedSnapPoint
+    );
+    return typeof snapPoint === 'object' ? snapPoint : undefined;
+  });
+
+  return {
+    snapPoints: normalizedSnapPoints,
+    dynamicSnapPointIndex,
+    snapPointConfigs,
+  };
+};
+
+/**
+ * Whether the snap points depend on the measured layout, which is the
+ * case with dynamic sizing, percentages, expressions and worklets.
+ */
+export const hasDynamicSnapPoints = (
+  snapPoints: SnapPoint[],
+  enableDynamicSizing?: boolean
+) => {
+  'worklet';
+  if (enableDynamicSizing) {
+    return true;
+  }
+
+  return snapPoints.some(snapPoint => {
+    const snapPointValue =
+      typeof snapPoint === 'object' ? snapPoint.value : snapPoint;
+    return typeof snapPointValue !== 'number';
+  });
+};
+//#endregion
+
+//#region container
+export interface LayoutEngineClosedPositionInput {
+  containerHeight: number;
+  topInset: number;
+  bottomInset: number;
+  edge: keyof typeof SHEET_EDGE;
+  /**
+   * Whether the sheet is detached from the container edge,
+   * which is the case for modals and detached sheets.
+   */
+  detached: boolean;
+}
+
+/**
+ * Calculates the closed position, detached sheets are pushed further by
+ * the anchored edge inset to be fully hidden.
+ */
+export const computeClosedPosition = ({
+  containerHeight,
+  topInset,
+  bottomInset,
+  edge,
+  detached,
+}: LayoutEngineClosedPositionInput) => {
+  'worklet';
+  if (!detached) {
+    return containerHeight;
+  }
+
+  if (edge === SHEET_EDGE.bottom) {
+    return containerHeight + bottomInset;
+  }
+
+  if (edge === SHEET_EDGE.top) {
+    return containerHeight + topInset;
+  }
+
+  return containerHeight;
+};
+
+export interface LayoutEngineKeyboardInput {
+  keyboardHeight: number;
+  /**
+   * The container bottom offset from the screen bottom edge.
+   */
+  containerBottomOffset: number;
+  bottomInset: number;
+  /**
+   * Whether the sheet is rendered in a modal, which container is
+   * already inset by the safe area.
+   */
+  modal: boolean;
+}
+
+/**
+ * Calculates the part of the keyboard that overlaps the container.
+ */
+export const computeKeyboardHeightInContainer = ({
+  keyboardHeight,
+  containerBottomOffset,
+  bottomInset,
+  modal,
+}: LayoutEngineKeyboardInput) => {
+  'worklet';
+  if (keyboardHeight === 0) {
+    return 0;
+  }
+
+  return modal
+    ? Math.abs(keyboardHeight - Math.abs(bottomInset - containerBottomOffset))
+    : Math.abs(keyboardHeight - containerBottomOffset);
+};
+//#endregion
+
+//#region position
+export interface LayoutEnginePositionInput {
+  source: ANIMATION_SOURCE;
+  snapPoints: number[];
+  currentIndex: number;
+  currentPosition: number;
+  closedPosition: number;
+  /**
+   * The provided `index` prop.
+   */
+  providedIndex: number;
+  isAnimatedOnMount: boolean;
+  isInTemporaryPosition: boolean;
+  isGestureActive: boolean;
+  keyboardState: KEYBOARD_STATE;
+  keyboardHeightInContainer: number;
+  keyboardBehavior: keyof typeof KEYBOARD_BEHAVIOR;
+  /**
+   * The snap point index for the `snapToIndex` keyboard behavior,
+   * which falls back to the highest snap point.
+   */
+  keyboardSnapIndex?: number;
+  keyboardBlurBehavior: keyof typeof KEYBOARD_BLUR_BEHAVIOR;
+  /**
+   * Whether the container is resized by the keyboard, which is the case
+   * on Android with `adjustResize` input mode.
+   */
+  isKeyboardResizingContainer: boolean;
+}
+
+export interface LayoutEnginePositionOutput {
+  position: number;
+  /**
+   * Whether the position is not a snap point, but a temporary
+   * position caused by the keyboard.
+   */
+  isInTemporaryPosition: boolean;
+}
+
+/**
+ * Calculates the position the sheet should settle at, based on the
+ * current index, the keyboard state and the keyboard behaviors.
+ */
+export const computeTargetPosition = ({
+  source,
+  snapPoints,
+  currentIndex,
+  currentPosition,
+  closedPosition,
+  providedIndex,
+  isAnimatedOnMount,
+  isInTemporaryPosition,
+  isGestureActive,
+  keyboardState,
+  keyboardHeightInContainer,
+  keyboardBehavior,
+  keyboardSnapIndex,
+  keyboardBlurBehavior,
+  isKeyboardResizingContainer,
+}: LayoutEnginePositionInput): LayoutEnginePositionOutput => {
+  'worklet';
+  const highestSnapPoint = snapPoints[snapPoints.length - 1];
+
+  /**
+   * if the keyboard blur behavior is restore and keyboard is hidden,
+   * then we return the previous snap point.
+   */
+  if (
+    source === ANIMATION_SOURCE.KEYBOARD &&
+    keyboardBlurBehavior === KEYBOARD_BLUR_BEHAVIOR.restore &&
+    keyboardState === KEYBOARD_STATE.HIDDEN &&
+    !isGestureActive
+  ) {
+    return {
+      position: snapPoints[currentIndex],
+      isInTemporaryPosition: false,
+    };
+  }
+
+  /**
+   * if the keyboard appearance behavior is extend and keyboard is shown,
+   * then we return the heights snap point.
+   */
+  if (
+    keyboardBehavior === KEYBOARD_BEHAVIOR.extend &&
+    keyboardState === KEYBOARD_STATE.SHOWN
+  ) {
+    return { position: highestSnapPoint, isInTemporaryPosition };
+  }
+
+  /**
+   * if the keyboard appearance behavior is snap to index and keyboard is shown,
+   * then we return the keyboard snap index point.
+   */
+  if (
+    keyboardBehavior === KEYBOARD_BEHAVIOR.snapToIndex &&
+    keyboardState === KEYBOARD_STATE.SHOWN
+  ) {
+    const position =
+      keyboardSnapIndex !== undefined
+        ? snapPoints[keyboardSnapIndex]
+        : undefined;
+    return {
+      position: position !== undefined ? position : highestSnapPoint,
+      isInTemporaryPosition,
+    };
+  }
+
+  /**
+   * if the keyboard appearance behavior is fill parent and keyboard is shown,
+   * then we return 0 ( full screen ).
+   */
+  if (
+    keyboardBehavior === KEYBOARD_BEHAVIOR.fillParent &&
+    keyboardState === KEYBOARD_STATE.SHOWN
+  ) {
+    return { position: 0, isInTemporaryPosition: true };
+  }
+
+  /**
+   * if the keyboard appearance behavior is interactive and keyboard is shown,
+   * then we return the heights points minus the keyboard in container height.
+   */
+  if (
+    keyboardBehavior === KEYBOARD_BEHAVIOR.interactive &&
+    keyboardState === KEYBOARD_STATE.SHOWN &&
+    !isKeyboardResizingContainer
+  ) {
+    return {
+      position: Math.max(0, highestSnapPoint - keyboardHeightInContainer),
+      isInTemporaryPosition: true,
+    };
+  }
+
+  /**
+   * if the bottom sheet is in temporary position, then we return
+   * the current position.
+   */
+  if (isInTemporaryPosition) {
+    return { position: currentPosition, isInTemporaryPosition };
+  }
+
+  /**
+   * if the bottom sheet did not animate on mount,
+   * then we return the provided index or the closed position.
+   */
+  if (!isAnimatedOnMount) {
+    return {
+      position:
+        providedIndex === -1 ? closedPosition : snapPoints[providedIndex],
+      isInTemporaryPosition,
+    };
+  }
+
+  /**
+   * return the current index position.
+   */
+  return { position: snapPoints[currentIndex], isInTemporaryPosition };
+};
+//#endregion
+
+//#region state
+export interface LayoutEngineSheetStateInput {
+  position: number;
+  containerHeight: number;
+  closedPosition: number;
+  highestSnapPoint: number;
+  keyboardHeightInContainer: number;
+  keyboardBehavior: keyof typeof KEYBOARD_BEHAVIOR;
+  isInTemporaryPosition: boolean;
+}
+
+/**
+ * Derives the sheet state from its position.
+ */
+export const computeSheetState = ({
+  position,
+  containerHeight,
+  closedPosition,
+  highestSnapPoint,
+  keyboardHeightInContainer,
+  keyboardBehavior,
+  isInTemporaryPosition,
+}: LayoutEngineSheetStateInput): SHEET_STATE => {
+  'worklet';
+  // closed position = position >= container height
+  if (position >= closedPosition) {
+    return SHEET_STATE.CLOSED;
+  }
+
+  // extended position = container height - sheet height
+  const sheetHeight = containerHeight - highestSnapPoint;
+  const extendedPosition = highestSnapPoint;
+  if (position === extendedPosition) {
+    return SHEET_STATE.EXTENDED;
+  }
+
+  // extended position with keyboard =
+  // container height - (sheet height + keyboard height in root container)
+  const extendedPositionWithKeyboard = Math.max(
+    0,
+    containerHeight - (sheetHeight + keyboardHeightInContainer)
+  );
+
+  // detect if keyboard is open and the sheet is in temporary position
+  if (
+    keyboardBehavior === KEYBOARD_BEHAVIOR.interactive &&
+    isInTemporaryPosition &&
+    position === extendedPositionWithKeyboard
+  ) {
+    return SHEET_STATE.EXTENDED;
+  }
+
+  // fill parent = 0
+  if (position === 0) {
+    return SHEET_STATE.FILL_PARENT;
+  }
+
+  // detect if position is below extended point
+  if (position < extendedPosition) {
+    return SHEET_STATE.OVER_EXTENDED;
+  }
+
+  return SHEET_STATE.OPENED;
+};
+//#endregion
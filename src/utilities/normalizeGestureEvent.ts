@@ -0,0 +1,46 @@
+import { SHEET_EDGE } from '../constants';
+
+interface PanGestureEvent {
+  translationX: number;
+  translationY: number;
+  velocityX: number;
+  velocityY: number;
+  changeX?: number;
+  changeY?: number;
+}
+
+/**
+ * Maps a pan gesture event into the sheet axis, where `translationY`,
+ * `velocityY` and `changeY` grow towards the closing direction of the sheet.
+ */
+export const normalizeGestureEvent = <T extends PanGestureEvent>(
+  event: T,
+  edge: keyof typeof SHEET_EDGE
+): T => {
+  'worklet';
+  switch (edge) {
+    case SHEET_EDGE.top:
+      return {
+        ...event,
+        translationY: -event.translationY,
+        velocityY: -event.velocityY,
+        changeY: event.changeY === undefined ? undefined : -event.changeY,
+      };
+    case SHEET_EDGE.left:
+      return {
+        ...event,
+        translationY: -event.translationX,
+        velocityY: -event.velocityX,
+        changeY: event.changeX === undefined ? undefined : -event.changeX,
+      };
+    case SHEET_EDGE.right:
+      return {
+        ...event,
+        translationY: event.translationX,
+        velocityY: event.velocityX,
+        changeY: event.changeX,
+      };
+    default:
+      return event;
+  }
+};
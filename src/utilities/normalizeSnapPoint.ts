@@ -1,17 +1,36 @@
+import type { SnapPoint, SnapPointNormalizationParams } from '../types';
+import { evaluateSnapPointExpression } from './evaluateSnapPointExpression';
+
 /**
  * Converts a snap point to fixed numbers.
  */
 export const normalizeSnapPoint = (
-  snapPoint: number | string,
-  containerHeight: number
+  snapPoint: SnapPoint,
+  params: SnapPointNormalizationParams
 ) => {
   'worklet';
-  let normalizedSnapPoint = snapPoint;
+  const snapPointValue =
+    typeof snapPoint === 'object' ? snapPoint.value : snapPoint;
+  let normalizedSnapPoint: number;
+
+  if (typeof snapPointValue === 'function') {
+    // worklet snap point
+    normalizedSnapPoint = snapPointValue(params);
+  } else if (typeof snapPointValue === 'string') {
+    // percentage or expression snap point
+    normalizedSnapPoint = evaluateSnapPointExpression(
+      snapPointValue,
+      params
+    ).value;
+  } else {
+    normalizedSnapPoint = snapPointValue;
+  }
 
-  // percentage snap point
-  if (typeof normalizedSnapPoint === 'string') {
-    normalizedSnapPoint =
-      (Number(normalizedSnapPoint.split('%')[0]) * containerHeight) / 100;
+  // invalid snap points are reported by the props validator,
+  // here we fallback to the closed position.
+  if (!Number.isFinite(normalizedSnapPoint)) {
+    normalizedSnapPoint = 0;
   }
-  return Math.max(0, containerHeight - normalizedSnapPoint);
+
+  return Math.max(0, params.containerHeight - normalizedSnapPoint);
 };
@@ -0,0 +1,48 @@
+import type {
+  BottomSheetPersistedState,
+  BottomSheetStorageAdapter,
+} from '../types';
+
+/**
+ * Creates a storage adapter, which keeps the items in memory
+ * for the app session.
+ */
+export const createInMemoryStorage = (): BottomSheetStorageAdapter => {
+  const items = new Map<string, string>();
+  return {
+    getItem: key => items.get(key),
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+  };
+};
+
+/**
+ * Reads the persisted sheet state, it resolves `undefined` if
+ * nothing was persisted or the item could not be read.
+ */
+export const readPersistedState = async (
+  storage: BottomSheetStorageAdapter,
+  key: string
+): Promise<BottomSheetPersistedState | undefined> => {
+  try {
+    const item = await storage.getItem(key);
+    return item ? (JSON.parse(item) as BottomSheetPersistedState) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Writes the sheet state to the storage, failures are ignored
+ * since persistence is a best effort.
+ */
+export const writePersistedState = async (
+  storage: BottomSheetStorageAdapter,
+  key: string,
+  state: BottomSheetPersistedState
+) => {
+  try {
+    await storage.setItem(key, JSON.stringify(state));
+  } catch {}
+};
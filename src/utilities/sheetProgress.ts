@@ -0,0 +1,70 @@
+import { clamp } from './clamp';
+
+export interface SheetProgressInput {
+  /**
+   * The sheet position.
+   */
+  position: number;
+  snapPoints: number[];
+  closedPosition: number;
+  /**
+   * The snap point index where the progress starts, `-1` is
+   * the closed position.
+   */
+  fromIndex: number;
+  /**
+   * The snap point index where the progress ends, `-1` is
+   * the closed position.
+   */
+  toIndex: number;
+}
+
+/**
+ * Calculates the normalized sheet progress between two snap points,
+ * it is `0` when either snap point is missing or both are equal.
+ */
+export const computeSheetProgress = ({
+  position,
+  snapPoints,
+  closedPosition,
+  fromIndex,
+  toIndex,
+}: SheetProgressInput) => {
+  'worklet';
+  const fromPosition =
+    fromIndex === -1 ? closedPosition : snapPoints[fromIndex];
+  const toPosition = toIndex === -1 ? closedPosition : snapPoints[toIndex];
+
+  if (
+    fromPosition === undefined ||
+    toPosition === undefined ||
+    fromPosition === toPosition
+  ) {
+    return 0;
+  }
+
+  return clamp((position - fromPosition) / (toPosition - fromPosition), 0, 1);
+};
+
+/**
+ * Calculates the sheet distance to its closed position.
+ */
+export const computeClosedDistance = (
+  position: number,
+  closedPosition: number
+) => {
+  'worklet';
+  return Math.max(0, closedPosition - position);
+};
+
+/**
+ * Calculates the distance the sheet is over-dragged beyond
+ * its highest snap point.
+ */
+export const computeOvershoot = (
+  position: number,
+  highestSnapPoint: number
+) => {
+  'worklet';
+  return Math.max(0, highestSnapPoint - position);
+};
@@ -1,11 +1,107 @@
-export const snapPoint = (
+import {
+  DEFAULT_FLICK_VELOCITY_THRESHOLD,
+  DEFAULT_SNAP_DECELERATION,
+  DEFAULT_SNAP_THRESHOLD_DISTANCE,
+} from '../components/bottomSheet/constants';
+import type { SnapStrategy, SnapStrategyParams } from '../types';
+
+const nearestPoint = (value: number, points: ReadonlyArray<number>) => {
+  'worklet';
+  const deltas = points.map(p => Math.abs(value - p));
+  const minDelta = Math.min.apply(null, deltas);
+  return points.filter(p => Math.abs(value - p) === minDelta)[0];
+};
+
+/**
+ * Returns the nearest point to `value` in the provided direction,
+ * excluding the `origin` point, or the `origin` if none found.
+ */
+const nearestPointInDirection = (
   value: number,
-  velocity: number,
+  origin: number,
+  direction: number,
   points: ReadonlyArray<number>
+) => {
+  'worklet';
+  const candidates = points.filter(p =>
+    direction > 0 ? p > origin : p < origin
+  );
+  return candidates.length > 0 ? nearestPoint(value, candidates) : origin;
+};
+
+/**
+ * Resolves the destination point of a gesture, using
+ * the provided snap strategy.
+ */
+export const snapPoint = (
+  strategy: SnapStrategy,
+  params: SnapStrategyParams
 ): number => {
   'worklet';
-  const point = value + 0.2 * velocity;
-  const deltas = points.map(p => Math.abs(point - p));
-  const minDelta = Math.min.apply(null, deltas);
-  return points.filter(p => Math.abs(point - p) === minDelta)[0];
+  if (typeof strategy === 'function') {
+    return strategy(params);
+  }
+
+  const { position, initialPosition, velocity, points, snapPoints } = params;
+  const config = typeof strategy === 'string' ? { type: strategy } : strategy;
+
+  switch (config.type) {
+    case 'nearest':
+      return nearestPoint(position, points);
+    case 'next-in-direction': {
+      const velocityThreshold =
+        'velocityThreshold' in config && config.velocityThreshold !== undefined
+          ? config.velocityThreshold
+          : DEFAULT_FLICK_VELOCITY_THRESHOLD;
+
+      /**
+       * if the gesture is not a flick, then we snap to the nearest point.
+       */
+      if (Math.abs(velocity) < velocityThreshold) {
+        return nearestPoint(position, points);
+      }
+
+      const origin = nearestPoint(initialPosition, points);
+      const candidates = points.filter(p =>
+        velocity > 0 ? p > origin : p < origin
+      );
+      if (candidates.length === 0) {
+        return origin;
+      }
+      return velocity > 0
+        ? Math.min.apply(null, candidates)
+        : Math.max.apply(null, candidates);
+    }
+    case 'threshold': {
+      const origin = nearestPoint(initialPosition, points);
+      const originIndex = snapPoints.indexOf(origin);
+      const distance =
+        'distance' in config && config.distance !== undefined
+          ? Array.isArray(config.distance)
+            ? (config.distance[originIndex] ?? DEFAULT_SNAP_THRESHOLD_DISTANCE)
+            : config.distance
+          : DEFAULT_SNAP_THRESHOLD_DISTANCE;
+      const dragDistance = position - initialPosition;
+
+      if (Math.abs(dragDistance) < distance) {
+        return origin;
+      }
+
+      return nearestPointInDirection(position, origin, dragDistance, points);
+    }
+    default: {
+      const deceleration =
+        'deceleration' in config && config.deceleration !== undefined
+          ? config.deceleration
+          : DEFAULT_SNAP_DECELERATION;
+
+      /**
+       * project the position where the gesture would naturally come
+       * to a rest, where velocity is in points per second.
+       */
+      const projection =
+        ((velocity / 1000) * deceleration) / (1 - deceleration);
+      return nearestPoint(position + projection, points);
+    }
+  }
 };
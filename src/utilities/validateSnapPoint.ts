@@ -1,20 +1,52 @@
 import invariant from 'invariant';
+import type { SnapPoint } from '../types';
+import { evaluateSnapPointExpression } from './evaluateSnapPointExpression';
+
+/**
+ * Sample layout, used to evaluate snap point expressions while validating.
+ */
+const VALIDATION_PARAMS = {
+  containerHeight: 1000,
+  contentHeight: 500,
+  handleHeight: 24,
+  headerHeight: 0,
+  footerHeight: 0,
+  keyboardHeight: 0,
+  topInset: 0,
+  bottomInset: 0,
+};
+
+export const validateSnapPoint = (
+  snapPoint: SnapPoint,
+  enableDynamicSizing?: boolean
+) => {
+  const snapPointValue =
+    typeof snapPoint === 'object' && snapPoint !== null
+      ? snapPoint.value
+      : snapPoint;
 
-export const validateSnapPoint = (snapPoint: number | string) => {
   invariant(
-    typeof snapPoint === 'number' || typeof snapPoint === 'string',
-    `'${snapPoint}' is not a valid snap point! expected types are string or number.`
+    typeof snapPointValue === 'number' ||
+      typeof snapPointValue === 'string' ||
+      typeof snapPointValue === 'function',
+    `'${snapPointValue}' is not a valid snap point! expected types are number, string, worklet or snap point config.`
   );
 
+  if (typeof snapPointValue !== 'string') {
+    return;
+  }
+
+  const { error } = evaluateSnapPointExpression(
+    snapPointValue,
+    VALIDATION_PARAMS
+  );
   invariant(
-    typeof snapPoint === 'number' ||
-      (typeof snapPoint === 'string' && snapPoint.includes('%')),
-    `'${snapPoint}' is not a valid percentage snap point! expected percentage snap point must include '%'. e.g. '50%'`
+    error === undefined,
+    `'${snapPointValue}' is not a valid snap point expression, ${error}! expected a percentage or an expression. e.g. '50%', 'content', 'calc(100% - 120)' or 'min(400, 60%)'`
   );
 
   invariant(
-    typeof snapPoint === 'number' ||
-      (typeof snapPoint === 'string' && Number(snapPoint.split('%')[0])),
-    `'${snapPoint}' is not a valid percentage snap point! expected percentage snap point must be only numbers and '%'. e.g. '50%'`
+    enableDynamicSizing || !snapPointValue.includes('content'),
+    `'${snapPointValue}' snap point depends on the content size! please enable 'enableDynamicSizing' prop.`
   );
 };
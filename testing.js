@@ -0,0 +1,974 @@
+/**
+ * Stateful implementation for test runners.
+ *
+ * Unlike `mock`, the components keep track of the sheet index & position,
+ * honour `snapPoints`, `enablePanDownToClose`, the modal stack behaviors and
+ * invoke the `onAnimate`, `onChange`, `onClose` & `onDismiss` callbacks, so
+ * tests can assert interactions without running any animation.
+ *
+ * Example:
+ *
+ * ```js
+ * jest.mock('@gorhom/bottom-sheet', () => require('@gorhom/bottom-sheet/testing'));
+ *
+ * const { simulatePan, getSheetState } = require('@gorhom/bottom-sheet');
+ * ```
+ */
+
+const React = require('react');
+const ReactNative = require('react-native');
+
+const NOOP = () => {};
+const NOOP_VALUE = { value: 0, set: NOOP, get: () => 0 };
+
+//#region configuration
+const DEFAULT_CONFIGURATION = {
+  containerHeight: 1000,
+  contentHeight: undefined,
+  topInset: 0,
+  bottomInset: 0,
+};
+
+const SNAP_POINT_TYPE = {
+  PROVIDED: 0,
+  DYNAMIC: 1,
+};
+
+/**
+ * Default snap strategy, it mirrors `DEFAULT_SNAP_STRATEGY`.
+ */
+const DEFAULT_SNAP_STRATEGY = 'projected';
+
+let configuration = { ...DEFAULT_CONFIGURATION };
+
+/**
+ * Overrides the fake layout used to normalize the snap points.
+ *
+ * The dynamic sizing snap point is only added when `contentHeight`
+ * is configured.
+ */
+const configureBottomSheetTesting = config => {
+  configuration = { ...configuration, ...config };
+};
+//#endregion
+
+//#region utilities
+/**
+ * Loads a pure utility from the build output, or from the source when
+ * the harness is used inside the repository before building, where the
+ * test runner transforms the TypeScript source.
+ */
+const requireUtility = name => {
+  try {
+    return require(`./lib/commonjs/utilities/${name}`);
+  } catch (error) {
+    if (error.code !== 'MODULE_NOT_FOUND') {
+      throw error;
+    }
+    return require(`./src/utilities/${name}`);
+  }
+};
+//#endregion
+
+//#region registry
+/**
+ * Named sheets, modals register with their `name`, and sheets with
+ * their `testID`.
+ */
+const sheetsRegistry = new Map();
+
+const resolveSheet = sheet => {
+  if (typeof sheet === 'string') {
+    return sheetsRegistry.get(sheet);
+  }
+  if (sheet && 'current' in sheet) {
+    return sheet.current;
+  }
+  return sheet;
+};
+
+const resolveBottomSheet = sheet => {
+  const instance = resolveSheet(sheet);
+  return instance instanceof BottomSheetModal ? instance.sheet : instance;
+};
+
+/**
+ * Clears the named sheets registry and the layout configuration,
+ * call it in `afterEach` to isolate tests.
+ */
+const resetBottomSheetTesting = () => {
+  sheetsRegistry.clear();
+  configuration = { ...DEFAULT_CONFIGURATION };
+};
+//#endregion
+
+//#region snap points
+const normalizeSnapPoint = snapPoint => {
+  const params = {
+    containerHeight: configuration.containerHeight,
+    contentHeight: configuration.contentHeight || 0,
+    handleHeight: 0,
+    footerHeight: 0,
+    keyboardHeight: 0,
+    topInset: configuration.topInset,
+    bottomInset: configuration.bottomInset,
+  };
+
+  if (snapPoint !== null && typeof snapPoint === 'object') {
+    return normalizeSnapPoint(snapPoint.value);
+  }
+
+  if (typeof snapPoint === 'function') {
+    return snapPoint(params);
+  }
+
+  if (typeof snapPoint === 'number') {
+    return snapPoint;
+  }
+
+  const { evaluateSnapPointExpression } = requireUtility(
+    'evaluateSnapPointExpression'
+  );
+  const { value, error } = evaluateSnapPointExpression(snapPoint, params);
+  if (error) {
+    throw new Error(`Invalid snap point '${snapPoint}': ${error}`);
+  }
+  return value;
+};
+
+const getSnapPoints = props => {
+  const snapPoints = props.snapPoints || [];
+  const { containerHeight, contentHeight } = configuration;
+
+  const points = snapPoints.map(snapPoint => ({
+    position: containerHeight - normalizeSnapPoint(snapPoint),
+    id:
+      snapPoint !== null && typeof snapPoint === 'object'
+        ? snapPoint.id
+        : undefined,
+    disableDrag:
+      snapPoint !== null && typeof snapPoint === 'object'
+        ? snapPoint.disableDrag === true
+        : false,
+    type: SNAP_POINT_TYPE.PROVIDED,
+  }));
+
+  if (props.enableDynamicSizing !== false && contentHeight !== undefined) {
+    const position =
+      containerHeight -
+      Math.min(
+        contentHeight,
+        props.maxDynamicContentSize !== undefined
+          ? props.maxDynamicContentSize
+          : containerHeight
+      );
+    if (!points.some(point => point.position === position)) {
+      points.push({
+        position,
+        id: undefined,
+        disableDrag: false,
+        type: SNAP_POINT_TYPE.DYNAMIC,
+      });
+    }
+
+    /**
+     * same as the sheet, the snap points are only sorted
+     * when the dynamic snap point is inserted.
+     */
+    points.sort((a, b) => b.position - a.position);
+  }
+
+  return points;
+};
+//#endregion
+
+//#region bottom sheet
+const BottomSheetContext = React.createContext(null);
+
+class BottomSheet extends React.Component {
+  constructor(props) {
+    super(props);
+
+    const index = props.index === undefined ? 0 : props.index;
+    this.sheetState = {
+      index: -1,
+      position: configuration.containerHeight,
+    };
+    this.initialIndex = index;
+    this.state = { index: -1 };
+
+    this.animatedIndex = {
+      get value() {
+        return this.owner.sheetState.index;
+      },
+      get: () => this.sheetState.index,
+      set: NOOP,
+      owner: this,
+    };
+    this.animatedPosition = {
+      get value() {
+        return this.owner.sheetState.position;
+      },
+      get: () => this.sheetState.position,
+      set: NOOP,
+      owner: this,
+    };
+
+    this.contextValue = {
+      snapToIndex: index => this.snapToIndex(index),
+      snapToId: id => this.snapToId(id),
+      snapToPosition: position => this.snapToPosition(position),
+      expand: () => this.expand(),
+      collapse: () => this.collapse(),
+      close: () => this.close(),
+      forceClose: () => this.forceClose(),
+      subscribeToAnimatedValues: () => this.subscribeToAnimatedValues(),
+      animatedIndex: this.animatedIndex,
+      animatedPosition: this.animatedPosition,
+      animatedVelocity: NOOP_VALUE,
+      animatedDragDirection: NOOP_VALUE,
+    };
+  }
+
+  componentDidMount() {
+    const name = this.props.testID;
+    if (name) {
+      sheetsRegistry.set(name, this.props.registryInstance || this);
+    }
+
+    if (this.initialIndex !== -1) {
+      this.animateTo(this.initialIndex);
+    }
+  }
+
+  componentDidUpdate(prevProps) {
+    const name = this.props.testID;
+    const prevName = prevProps.testID;
+    if (name !== prevName) {
+      sheetsRegistry.delete(prevName);
+      if (name) {
+        sheetsRegistry.set(name, this.props.registryInstance || this);
+      }
+    }
+
+    if (
+      this.props.index !== undefined &&
+      this.props.index !== prevProps.index &&
+      this.props.index !== this.sheetState.index
+    ) {
+      this.animateTo(this.props.index);
+    }
+  }
+
+  componentWillUnmount() {
+    const name = this.props.testID;
+    const registered = this.props.registryInstance || this;
+    if (name && sheetsRegistry.get(name) === registered) {
+      sheetsRegistry.delete(name);
+    }
+  }
+
+  //#region methods
+  getSnapPoints() {
+    return getSnapPoints(this.props);
+  }
+
+  animateTo(index, position) {
+    const snapPoints = this.getSnapPoints();
+    const { index: fromIndex, position: fromPosition } = this.sheetState;
+    const snapPoint = index === -1 ? undefined : snapPoints[index];
+    const toPosition =
+      position !== undefined
+        ? position
+        : snapPoint
+          ? snapPoint.position
+          : configuration.containerHeight;
+
+    if (fromIndex === index && fromPosition === toPosition) {
+      return Promise.resolve({
+        finished: true,
+        index,
+        position: toPosition,
+      });
+    }
+
+    if (this.props.onAnimate) {
+      this.props.onAnimate(fromIndex, index, fromPosition, toPosition);
+    }
+
+    this.sheetState = { index, position: toPosition };
+    this.setState({ index });
+
+    if (fromIndex !== index) {
+      if (this.props.onChange) {
+        this.props.onChange(
+          index,
+          toPosition,
+          snapPoint ? snapPoint.type : SNAP_POINT_TYPE.PROVIDED,
+          snapPoint ? snapPoint.id : undefined
+        );
+      }
+
+      if (index === -1 && this.props.onClose) {
+        this.props.onClose();
+      }
+    }
+
+    return Promise.resolve({ finished: true, index, position: toPosition });
+  }
+
+  snapToIndex(index) {
+    const snapPoints = this.getSnapPoints();
+    if (index < -1 || index >= snapPoints.length) {
+      throw new Error(
+        `'index' was provided but out of the provided snap points range! expected value to be between -1, ${snapPoints.length - 1}`
+      );
+    }
+    return this.animateTo(index);
+  }
+  snapToId(id) {
+    const index = this.getSnapPoints().findIndex(point => point.id === id);
+    if (index === -1) {
+      throw new Error(`'id' was provided but no snap point matches '${id}'!`);
+    }
+    return this.animateTo(index);
+  }
+  snapToPosition(position) {
+    const toPosition =
+      configuration.containerHeight - normalizeSnapPoint(position);
+    const index = this.getSnapPoints().findIndex(
+      point => point.position === toPosition
+    );
+    return this.animateTo(index, toPosition);
+  }
+  expand() {
+    return this.animateTo(this.getSnapPoints().length - 1);
+  }
+  collapse() {
+    return this.animateTo(0);
+  }
+  close() {
+    return this.animateTo(-1);
+  }
+  forceClose() {
+    return this.animateTo(-1);
+  }
+  subscribeToAnimatedValues() {
+    return NOOP;
+  }
+  //#endregion
+
+  render() {
+    const {
+      children,
+      style,
+      testID,
+      backdropComponent: BackdropComponent,
+      footerComponent: FooterComponent,
+      headerComponent: HeaderComponent,
+    } = this.props;
+    const { index } = this.state;
+    const animatedProps = {
+      animatedIndex: this.animatedIndex,
+      animatedPosition: this.animatedPosition,
+    };
+
+    return React.createElement(
+      BottomSheetContext.Provider,
+      { value: this.contextValue },
+      BackdropComponent
+        ? React.createElement(BackdropComponent, {
+            ...animatedProps,
+            style: ReactNative.StyleSheet.absoluteFill,
+          })
+        : null,
+      index === -1 && !this.props.keepMountedWhenClosed
+        ? null
+        : React.createElement(
+            ReactNative.View,
+            { style, testID },
+            HeaderComponent
+              ? React.createElement(HeaderComponent, {
+                  ...animatedProps,
+                  animatedScrollableContentOffsetY: NOOP_VALUE,
+                })
+              : null,
+            typeof children === 'function' ? children() : children,
+            FooterComponent
+              ? React.createElement(FooterComponent, animatedProps)
+              : null
+          )
+    );
+  }
+}
+
+/**
+ * Simulates a pan gesture on the sheet, `dy` is the vertical translation
+ * (positive is downwards), and `velocity` the release velocity in points
+ * per second.
+ *
+ * The sheet then snaps using its `snapStrategy`, the closed position
+ * is only considered when `enablePanDownToClose` is enabled.
+ */
+const simulatePan = (sheet, dy, velocity = 0) => {
+  const instance = resolveBottomSheet(sheet);
+  if (!instance) {
+    throw new Error(`Could not find the bottom sheet '${String(sheet)}'!`);
+  }
+
+  const { props, sheetState } = instance;
+  const snapPoints = instance.getSnapPoints();
+  const currentSnapPoint = snapPoints[sheetState.index];
+
+  if (
+    sheetState.index === -1 ||
+    props.enableContentPanningGesture === false ||
+    currentSnapPoint?.disableDrag
+  ) {
+    return Promise.resolve({
+      finished: false,
+      index: sheetState.index,
+      position: sheetState.position,
+    });
+  }
+
+  const { snapPoint } = requireUtility('snapPoint');
+  const closedPosition = configuration.containerHeight;
+  const positions = snapPoints.map(point => point.position);
+  const points = props.enablePanDownToClose
+    ? [closedPosition, ...positions]
+    : positions;
+
+  const destinationPosition = snapPoint(
+    props.snapStrategy || DEFAULT_SNAP_STRATEGY,
+    {
+      position: sheetState.position + dy,
+      initialPosition: sheetState.position,
+      velocity,
+      points,
+      snapPoints: positions,
+    }
+  );
+
+  /**
+   * the sheet closes once it settles at the closed position, which
+   * is only a destination with `enablePanDownToClose`.
+   */
+  if (props.enablePanDownToClose && destinationPosition === closedPosition) {
+    return instance.animateTo(-1);
+  }
+
+  return instance.animateTo(positions.indexOf(destinationPosition));
+};
+
+/**
+ * Returns the current state of a sheet, by its name, ref or instance.
+ */
+const getSheetState = sheet => {
+  const instance = resolveSheet(sheet);
+  if (!instance) {
+    return undefined;
+  }
+
+  if (instance instanceof BottomSheetModal) {
+    const { sheet: bottomSheet } = instance;
+    return {
+      index: bottomSheet ? bottomSheet.sheetState.index : -1,
+      position: bottomSheet
+        ? bottomSheet.sheetState.position
+        : configuration.containerHeight,
+      presented: instance.modalState.mounted,
+      minimized: instance.modalState.minimized,
+      data: instance.modalState.data,
+    };
+  }
+
+  return {
+    index: instance.sheetState.index,
+    position: instance.sheetState.position,
+  };
+};
+//#endregion
+
+//#region backdrop
+const BottomSheetBackdrop = ({
+  disappearsOnIndex = 0,
+  pressBehavior = 'close',
+  onPress,
+  enableTouchThrough = false,
+  style,
+  children,
+}) => {
+  const sheet = React.useContext(BottomSheetContext);
+  const index = sheet ? sheet.animatedIndex.value : -1;
+
+  if (index <= disappearsOnIndex) {
+    return null;
+  }
+
+  const handleOnPress = () => {
+    if (onPress) {
+      onPress();
+    }
+
+    if (pressBehavior === 'close') {
+      sheet.close();
+    } else if (pressBehavior === 'collapse') {
+      sheet.collapse();
+    } else if (typeof pressBehavior === 'number') {
+      sheet.snapToIndex(pressBehavior);
+    }
+  };
+
+  return React.createElement(
+    ReactNative.Pressable,
+    {
+      testID: 'bottom-sheet-backdrop',
+      accessibilityRole: 'button',
+      accessibilityLabel: 'Bottom sheet backdrop',
+      pointerEvents: enableTouchThrough ? 'none' : 'auto',
+      onPress: pressBehavior === 'none' && !onPress ? undefined : handleOnPress,
+      style,
+    },
+    children
+  );
+};
+//#endregion
+
+//#region modal
+const BottomSheetModalStackContext = React.createContext(null);
+
+const BottomSheetModalProvider = ({ children }) => {
+  const stackRef = React.useRef([]);
+  const [stack, setStack] = React.useState([]);
+
+  const notifyStackChange = React.useCallback(() => {
+    setStack(
+      stackRef.current.map(({ modal }) => ({
+        key: modal.key,
+        name: modal.props.name,
+        state: !modal.modalState.mounted
+          ? 'willUnmount'
+          : modal.modalState.minimized
+            ? 'minimized'
+            : 'presented',
+        index: modal.sheet ? modal.sheet.sheetState.index : -1,
+      }))
+    );
+  }, []);
+
+  const value = React.useMemo(
+    () => ({
+      mountSheet: modal => {
+        const queue = stackRef.current.filter(item => item.modal !== modal);
+        const top = queue[queue.length - 1];
+        const stackBehavior = modal.props.stackBehavior || 'switch';
+
+        /**
+         * the presented sheet goes on top first, so dismissing the
+         * replaced sheet does not restore the one below it.
+         */
+        stackRef.current = [...queue, { modal }];
+
+        if (top) {
+          if (stackBehavior === 'replace') {
+            top.modal.dismiss();
+          } else if (stackBehavior === 'switch') {
+            top.modal.minimize();
+          }
+        }
+
+        notifyStackChange();
+      },
+      unmountSheet: modal => {
+        const queue = stackRef.current;
+        const sheetOnTop = queue[queue.length - 1]?.modal === modal;
+        stackRef.current = queue.filter(item => item.modal !== modal);
+
+        const minimized = stackRef.current[stackRef.current.length - 1];
+        if (sheetOnTop && minimized && minimized.modal.modalState.minimized) {
+          minimized.modal.restore();
+        }
+        notifyStackChange();
+      },
+      updateSheetIndex: modal => {
+        if (stackRef.current.some(item => item.modal === modal)) {
+          notifyStackChange();
+        }
+      },
+      present: (name, data) => {
+        const modal = sheetsRegistry.get(name);
+        if (!(modal instanceof BottomSheetModal)) {
+          return false;
+        }
+        modal.present(data);
+        return true;
+      },
+      dismiss: key => {
+        const queue = stackRef.current;
+        const item = key
+          ? queue.find(
+              ({ modal }) => modal.key === key || modal.props.name === key
+            )
+          : queue[queue.length - 1];
+        if (!item) {
+          return false;
+        }
+        item.modal.dismiss();
+        return true;
+      },
+      dismissAll: () => {
+        for (const { modal } of stackRef.current.slice().reverse()) {
+          modal.dismiss();
+        }
+      },
+    }),
+    [notifyStackChange]
+  );
+
+  const contextValue = React.useMemo(
+    () => ({ ...value, stack }),
+    [value, stack]
+  );
+
+  return React.createElement(
+    BottomSheetModalStackContext.Provider,
+    { value: contextValue },
+    children
+  );
+};
+
+let modalKeyCounter = 0;
+
+class BottomSheetModal extends React.Component {
+  static contextType = BottomSheetModalStackContext;
+
+  constructor(props) {
+    super(props);
+    this.key = props.name || `bottom-sheet-modal-${modalKeyCounter++}`;
+    this.sheet = null;
+    this.modalState = { mounted: false, minimized: false, data: undefined };
+    this.state = this.modalState;
+    this.setSheetRef = ref => {
+      this.sheet = ref;
+    };
+  }
+
+  componentDidMount() {
+    if (this.props.name) {
+      sheetsRegistry.set(this.props.name, this);
+    }
+  }
+
+  componentWillUnmount() {
+    if (this.props.name && sheetsRegistry.get(this.props.name) === this) {
+      sheetsRegistry.delete(this.props.name);
+    }
+    if (this.modalState.mounted && this.context) {
+      this.context.unmountSheet(this);
+    }
+  }
+
+  /**
+   * The modal state is read synchronously by the provider and the
+   * helpers, so it is kept on the instance and mirrored to the state.
+   */
+  setModalState(state) {
+    this.modalState = { ...this.modalState, ...state };
+    this.setState(this.modalState);
+  }
+
+  //#region stack
+  minimize() {
+    this.setModalState({ minimized: true });
+    if (this.sheet) {
+      this.sheet.animateTo(-1);
+    }
+  }
+  restore() {
+    this.setModalState({ minimized: false });
+    if (this.sheet) {
+      const index = this.props.index === undefined ? 0 : this.props.index;
+      this.sheet.animateTo(index);
+    }
+  }
+  unmount() {
+    const wasMounted = this.modalState.mounted;
+    this.sheet = null;
+    this.setModalState({ mounted: false, minimized: false, data: undefined });
+
+    if (!wasMounted) {
+      return;
+    }
+
+    if (this.context) {
+      this.context.unmountSheet(this);
+    }
+    if (this.props.onDismiss) {
+      this.props.onDismiss();
+    }
+  }
+  //#endregion
+
+  //#region methods
+  present(data) {
+    this.setModalState({ mounted: true, minimized: false, data });
+    if (this.context) {
+      this.context.mountSheet(this);
+    }
+
+    const index = this.props.index === undefined ? 0 : this.props.index;
+    return Promise.resolve({
+      finished: true,
+      index,
+      position: this.getPositionForIndex(index),
+    });
+  }
+  dismiss() {
+    if (!this.modalState.mounted) {
+      return Promise.resolve({
+        finished: true,
+        index: -1,
+        position: configuration.containerHeight,
+      });
+    }
+
+    if (this.sheet) {
+      this.sheet.animateTo(-1);
+    }
+    this.unmount();
+    return Promise.resolve({
+      finished: true,
+      index: -1,
+      position: configuration.containerHeight,
+    });
+  }
+  getPositionForIndex(index) {
+    const snapPoint = getSnapPoints(this.props)[index];
+    return snapPoint ? snapPoint.position : configuration.containerHeight;
+  }
+  snapToIndex(index) {
+    return this.sheet.snapToIndex(index);
+  }
+  snapToId(id) {
+    return this.sheet.snapToId(id);
+  }
+  snapToPosition(position) {
+    return this.sheet.snapToPosition(position);
+  }
+  expand() {
+    return this.sheet.expand();
+  }
+  collapse() {
+    return this.sheet.collapse();
+  }
+  close() {
+    return this.sheet.close();
+  }
+  forceClose() {
+    return this.sheet.forceClose();
+  }
+  subscribeToAnimatedValues() {
+    return NOOP;
+  }
+  //#endregion
+
+  handleOnChange = (index, position, type, id) => {
+    if (this.context) {
+      this.context.updateSheetIndex(this);
+    }
+
+    if (this.props.onChange) {
+      this.props.onChange(index, position, type, id);
+    }
+  };
+  handleOnClose = () => {
+    if (this.modalState.minimized) {
+      return;
+    }
+
+    if (this.props.onClose) {
+      this.props.onClose();
+    }
+
+    if (this.props.enableDismissOnClose !== false) {
+      this.unmount();
+    }
+  };
+
+  render() {
+    const { mounted, data } = this.state;
+    if (!mounted) {
+      return null;
+    }
+
+    const {
+      children,
+      name: _name,
+      onDismiss: _onDismiss,
+      stackBehavior: _stackBehavior,
+      ...rest
+    } = this.props;
+
+    return React.createElement(
+      BottomSheet,
+      {
+        ...rest,
+        ref: this.setSheetRef,
+        registryInstance: this,
+        onChange: this.handleOnChange,
+        onClose: this.handleOnClose,
+        keepMountedWhenClosed: true,
+      },
+      typeof children === 'function' ? children({ data }) : children
+    );
+  }
+}
+//#endregion
+
+//#region hooks
+const useBottomSheet = () => {
+  const context = React.useContext(BottomSheetContext);
+  if (!context) {
+    throw new Error("'useBottomSheet' cannot be used out of the BottomSheet!");
+  }
+  return context;
+};
+
+const useBottomSheetModal = () => {
+  const context = React.useContext(BottomSheetModalStackContext);
+  if (!context) {
+    throw new Error(
+      "'BottomSheetModalContext' cannot be null!, please add 'BottomSheetModalProvider' to the root component."
+    );
+  }
+  return {
+    present: context.present,
+    dismiss: context.dismiss,
+    dismissAll: context.dismissAll,
+  };
+};
+
+const useBottomSheetModalStack = () => {
+  const context = React.useContext(BottomSheetModalStackContext);
+  return context ? context.stack : [];
+};
+
+const useBottomSheetEvents = NOOP;
+
+const useBottomSheetAnimationConfigs = configs => configs;
+
+const useKeyboardProvider = () => ({
+  state: NOOP_VALUE,
+  height: NOOP_VALUE,
+  isFrameAccurate: false,
+});
+
+const bottomSheetInternal = {
+  stopAnimation: NOOP,
+  animateToPosition: NOOP,
+  emitEvent: NOOP,
+  subscribeToEvents: () => NOOP,
+  setScrollableRef: NOOP,
+  removeScrollableRef: NOOP,
+  registerScrollable: NOOP,
+  unregisterScrollable: NOOP,
+  setFocusedInputRef: NOOP,
+  removeFocusedInputRef: NOOP,
+};
+
+const internalProxy = {
+  get(target, prop) {
+    return prop in target ? target[prop] : NOOP_VALUE;
+  },
+};
+
+const useBottomSheetInternal = () =>
+  new Proxy(bottomSheetInternal, internalProxy);
+
+const useBottomSheetModalInternal = () =>
+  new Proxy(
+    {
+      mountSheet: NOOP,
+      unmountSheet: NOOP,
+      willUnmountSheet: NOOP,
+    },
+    internalProxy
+  );
+
+const useBottomSheetDynamicSnapPoints = () => ({
+  animatedSnapPoints: NOOP_VALUE,
+  animatedHandleHeight: NOOP_VALUE,
+  animatedContentHeight: NOOP_VALUE,
+  handleContentLayout: NOOP,
+});
+
+const useBottomSheetAnimatedValues = () => ({
+  animatedIndex: NOOP_VALUE,
+  animatedPosition: NOOP_VALUE,
+  animatedVelocity: NOOP_VALUE,
+  animatedDragDirection: NOOP_VALUE,
+  animatedSnapPoints: { value: [] },
+  animatedClosedPosition: NOOP_VALUE,
+  animatedHighestSnapPoint: NOOP_VALUE,
+});
+
+const useBottomSheetAnimatedValue = () => NOOP_VALUE;
+
+const interpolateSheet = (_, outputs) => {
+  const keys = Object.keys(outputs);
+  return keys.length > 0 ? outputs[keys[0]] : 0;
+};
+//#endregion
+
+const BottomSheetView = ({ children, ...rest }) =>
+  React.createElement(ReactNative.View, rest, children);
+
+module.exports = {
+  BottomSheetView,
+  BottomSheetTextInput: ReactNative.TextInput,
+  BottomSheetScrollView: ReactNative.ScrollView,
+  BottomSheetSectionList: ReactNative.SectionList,
+  BottomSheetFlatList: ReactNative.FlatList,
+  BottomSheetFlashList: ReactNative.FlatList,
+  BottomSheetVirtualizedList: ReactNative.VirtualizedList,
+  BottomSheetHorizontalScrollView: ReactNative.ScrollView,
+  BottomSheetOverlay: BottomSheetView,
+
+  TouchableOpacity: ReactNative.TouchableOpacity,
+  TouchableHighlight: ReactNative.TouchableHighlight,
+  TouchableWithoutFeedback: ReactNative.TouchableWithoutFeedback,
+
+  BottomSheetModalProvider,
+  BottomSheetModal,
+  BottomSheetBackdrop,
+
+  default: BottomSheet,
+
+  useBottomSheet,
+  useBottomSheetModal,
+  useBottomSheetModalStack,
+  useBottomSheetEvents,
+  useBottomSheetSpringConfigs: useBottomSheetAnimationConfigs,
+  useBottomSheetTimingConfigs: useBottomSheetAnimationConfigs,
+  useBottomSheetInternal,
+  useBottomSheetModalInternal,
+  useBottomSheetDynamicSnapPoints,
+  useBottomSheetAnimatedValues,
+  useBottomSheetAnimatedProgress: useBottomSheetAnimatedValue,
+  useBottomSheetClosedDistance: useBottomSheetAnimatedValue,
+  useBottomSheetOvershoot: useBottomSheetAnimatedValue,
+  useBottomSheetDragVelocity: useBottomSheetAnimatedValue,
+  useKeyboardEventsProvider: useKeyboardProvider,
+  useAnimatedKeyboardProvider: useKeyboardProvider,
+  useVisualViewportKeyboardProvider: useKeyboardProvider,
+
+  interpolateSheet,
+
+  SNAP_POINT_TYPE,
+
+  simulatePan,
+  getSheetState,
+  configureBottomSheetTesting,
+  resetBottomSheetTesting,
+};
@@ -39,8 +39,10 @@ const sidebars: SidebarsConfig = {
             'components/bottomsheetflashlist',
             'components/bottomsheetsectionlist',
             'components/bottomsheetvirtualizedlist',
+            'components/bottomsheethorizontalscrollview',
             'components/bottomsheetbackdrop',
             'components/bottomsheetfooter',
+            'components/bottomsheetoverlay',
             'components/bottomsheettextinput',
           ],
         },
@@ -78,6 +80,8 @@ const sidebars: SidebarsConfig = {
         'guides/detach-modal',
         'guides/keyboard-handling',
         'guides/pull-to-refresh',
+        'guides/nested-sheets',
+        'guides/testing',
         'guides/adding-shadow',
         'guides/react-navigation-integration',
       ],